@@ -2,59 +2,101 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Hero } from './components/Hero';
 import { InputArea } from './components/InputArea';
 import { LivePreview } from './components/LivePreview';
 import { CreationHistory, Creation } from './components/CreationHistory';
 import { ApiKeyModal } from './components/ApiKeyModal';
-import { bringToLife, updateCode, validateApiKey } from './services/gemini';
+import { StatusToast, StatusNotice } from './components/StatusToast';
+import { UserAdminModal } from './components/UserAdminModal';
+import { KeyProfilePicker } from './components/KeyProfilePicker';
+import { UpdateContext, bringToLifeStream, updateCodeStream, validateProfile, splitChangeSummary } from './services/gemini';
+import { KeyProfile, getActiveProfile, getProfileLabel, loadProviderSettings, requiresApiKey, setActiveProfile } from './services/providers/registry';
+import { GenerationError } from './services/errors';
+import { getVaultStatus } from './services/vault';
+import { AuthUser, getSessionExpiry, getSessionUser, hasPermission, logout } from './services/auth';
+import { PendingInput, getSourceInputs, toInlineData, toSourceInput } from './services/sourceInputs';
+import { Sketch, sketchToFile } from './services/sketch';
+import { ImageProcessingError } from './services/imageProcessing';
+import { DocumentError } from './services/documents';
+import { ReactConversionError, buildReactProject, convertCreationToReact } from './services/reactExport';
+import { downloadBlob, toSafeFileName } from './services/exporters';
+import { getRootId, getVersions, getVersionNumber, createNextVersion, createChatTurn } from './services/versions';
+import { StorageUsage, loadHistory, saveCreation, deleteCreation, enforceRetention, getStorageUsage, setRetentionLimit } from './services/historyStore';
 import { ArrowUpTrayIcon, Cog6ToothIcon, CheckCircleIcon, ExclamationCircleIcon, KeyIcon } from '@heroicons/react/24/solid';
 
-const MAX_HISTORY_ITEMS = 30;
-
 const App: React.FC = () => {
   const [activeCreation, setActiveCreation] = useState<Creation | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [streamingHtml, setStreamingHtml] = useState('');
   const [history, setHistory] = useState<Creation[]>([]);
   const [isApiKeyModalOpen, setIsApiKeyModalOpen] = useState(false);
-  const [apiStatus, setApiStatus] = useState<'idle' | 'checking' | 'valid' | 'invalid'>('idle');
+  const [apiStatus, setApiStatus] = useState<'idle' | 'checking' | 'valid' | 'invalid' | 'locked'>('idle');
+  const [notice, setNotice] = useState<StatusNotice | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(getSessionUser);
+  const [isUserAdminOpen, setIsUserAdminOpen] = useState(false);
+  const [providerSettings, setProviderSettings] = useState(loadProviderSettings);
+  // Runs alongside the preview rather than replacing it, so it has its own flag
+  const [isConvertingToReact, setIsConvertingToReact] = useState(false);
   const importInputRef = useRef<HTMLInputElement>(null);
+  // Controller for the in-flight generation/update, if any
+  const requestRef = useRef<AbortController | null>(null);
 
   const checkApiConnection = async () => {
-    const key = localStorage.getItem('user_gemini_api_key');
-    if (!key) {
-      setApiStatus('idle');
+    setProviderSettings(loadProviderSettings());
+    const profile = getActiveProfile();
+    if (requiresApiKey(profile.kind) && !profile.apiKey) {
+      // A locked vault still has keys; the modal opens on its unlock prompt
+      setApiStatus(getVaultStatus() === 'locked' ? 'locked' : 'idle');
       // Small delay to ensure UI renders first
       setTimeout(() => setIsApiKeyModalOpen(true), 500);
       return;
     }
     setApiStatus('checking');
-    const isValid = await validateApiKey(key);
+    const isValid = await validateProfile(profile);
     setApiStatus(isValid ? 'valid' : 'invalid');
   };
 
+  const handleSelectProfile = (id: string) => {
+    setActiveProfile(id);
+    checkApiConnection();
+  };
+
+  // Checked one at a time so a shared quota isn't hit in a burst
+  const handleValidateAllProfiles = async () => {
+    for (const profile of loadProviderSettings().profiles) {
+      if (!requiresApiKey(profile.kind) || profile.apiKey) await validateProfile(profile);
+    }
+  };
+
+  // Log out automatically when the persisted session expires
+  useEffect(() => {
+    const expiresAt = getSessionExpiry();
+    if (!currentUser || !expiresAt) return;
+    const timer = setTimeout(() => {
+      logout();
+      setCurrentUser(null);
+      showNotice({ tone: 'info', title: "登录已过期", message: "请重新登录以继续修改。" });
+    }, expiresAt - Date.now());
+    return () => clearTimeout(timer);
+  }, [currentUser]);
+
   // Initial Check for API Key
   useEffect(() => {
     checkApiConnection();
   }, []);
 
-  // Load history from local storage or fetch examples on mount
+  // Load history from IndexedDB (migrating old localStorage data) or fetch examples on mount
   useEffect(() => {
     const initHistory = async () => {
-      const saved = localStorage.getItem('gemini_app_history');
       let loadedHistory: Creation[] = [];
 
-      if (saved) {
-        try {
-          const parsed = JSON.parse(saved);
-          loadedHistory = parsed.map((item: any) => ({
-              ...item,
-              timestamp: new Date(item.timestamp)
-          }));
-        } catch (e) {
-          console.error("Failed to load history", e);
-        }
+      try {
+        loadedHistory = await loadHistory();
+      } catch (e) {
+        console.error("Failed to load history", e);
       }
 
       if (loadedHistory.length > 0) {
@@ -89,148 +131,361 @@ const App: React.FC = () => {
            
            const validExamples = examples.filter((e): e is Creation => e !== null);
            setHistory(validExamples);
+           await Promise.all(validExamples.map(saveCreation));
         } catch (e) {
             console.error("Failed to load examples", e);
         }
       }
     };
 
-    initHistory();
+    initHistory().then(refreshStorageUsage);
   }, []);
 
-  // Save history when it changes
-  useEffect(() => {
-    if (history.length > 0) {
-        try {
-            localStorage.setItem('gemini_app_history', JSON.stringify(history));
-        } catch (e) {
-            console.warn("Local storage full or error saving history", e);
-        }
-    } else {
-        // If history is explicitly empty (and we've initialized), clear storage
-        // Note: This runs on initial render too if history is empty, but initHistory handles that race slightly.
-        // Better logic is handled in delete.
+  const refreshStorageUsage = async () => {
+    try {
+      setStorageUsage(await getStorageUsage());
+    } catch (e) {
+      console.error("Failed to read storage usage", e);
     }
-  }, [history]);
-
-  // Helper to convert file to base64
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        if (typeof reader.result === 'string') {
-          // Remove the data URL prefix (e.g., "data:image/jpeg;base64,")
-          const base64 = reader.result.split(',')[1];
-          resolve(base64);
-        } else {
-          reject(new Error('Failed to convert file to base64'));
-        }
-      };
-      reader.onerror = (error) => reject(error);
-    });
   };
 
-  const handleError = (error: any) => {
-      console.error(error);
-      if (error.message === "API_KEY_MISSING") {
-          setIsApiKeyModalOpen(true);
-      } else if (error.toString().includes('403') || error.toString().includes('400')) {
-          alert("API 密钥无效或请求被拒绝。请检查您的密钥设置。");
-          setApiStatus('invalid');
-          setIsApiKeyModalOpen(true);
-      } else {
-          alert("生成过程中出现问题。请重试。");
+  // Persist a creation and evict the oldest ones if the retention limit is exceeded
+  const persistCreation = async (creation: Creation) => {
+    try {
+      await saveCreation(creation);
+      const evicted = await enforceRetention();
+      if (evicted.length > 0) {
+        setHistory(prev => prev.filter(item => !evicted.includes(item.id)));
+        showNotice({ tone: 'info', title: `已自动移除最久未更新的作品（共 ${evicted.length} 个版本）`, message: "历史记录超出了存储上限。" });
       }
+    } catch (e) {
+      console.error("Failed to save creation", e);
+      showNotice({ tone: 'error', title: "保存历史记录失败", message: "浏览器存储空间可能已满。" });
+    }
+    refreshStorageUsage();
+  };
+
+  const addToHistory = (creation: Creation) => {
+    setHistory(prev => [creation, ...prev.filter(item => item.id !== creation.id)]);
+    persistCreation(creation);
+  };
+
+  // Replaces a creation in place (same id), e.g. after changing one of its settings
+  const replaceInHistory = (creation: Creation) => {
+    setHistory(prev => prev.map(item => item.id === creation.id ? creation : item));
+    persistCreation(creation);
   };
 
-  const handleGenerate = async (promptText: string, file?: File) => {
+  const handleChangeRetentionLimit = async (bytes: number) => {
+    setRetentionLimit(bytes);
+    const evicted = await enforceRetention();
+    if (evicted.length > 0) {
+      setHistory(prev => prev.filter(item => !evicted.includes(item.id)));
+    }
+    refreshStorageUsage();
+  };
+
+  const showNotice = (notice: Omit<StatusNotice, 'id'>) => {
+      setNotice({ ...notice, id: Date.now() });
+  };
+
+  const dismissNotice = useCallback(() => setNotice(null), []);
+
+  const handleError = (error: unknown) => {
+      if (error instanceof ImageProcessingError) {
+          showNotice({
+              tone: 'error',
+              title: `无法处理图片 ${error.fileName}`,
+              message: error.kind === 'unsupported_format' ? "当前浏览器无法解码此格式 (如 HEIC)，请先转换为 JPEG 或 PNG。" : "请尝试其他图片。",
+          });
+          return;
+      }
+      if (error instanceof ReactConversionError) {
+          showNotice({
+              tone: 'error',
+              title: error.kind === 'invalid_output' ? "React 转换结果未通过校验" : "无法加载代码校验组件",
+              message: error.kind === 'invalid_output' ? `已自动修正一次但仍有问题：${error.problems[0]}` : "请检查网络连接后重试。",
+          });
+          return;
+      }
+      if (error instanceof DocumentError) {
+          showNotice({
+              tone: 'error',
+              title: `无法读取文件 ${error.fileName}`,
+              message: error.kind === 'library_unavailable' ? "解析该格式所需的组件加载失败，请检查网络连接后重试。" : "文件内容无法解析，请确认格式正确。",
+          });
+          return;
+      }
+      const kind = error instanceof GenerationError ? error.kind : 'unknown';
+      switch (kind) {
+          case 'missing_key':
+              setIsApiKeyModalOpen(true);
+              break;
+          case 'invalid_key':
+              showNotice({ tone: 'error', title: "API 密钥无效或请求被拒绝", message: "请检查您的密钥设置。" });
+              setApiStatus('invalid');
+              setIsApiKeyModalOpen(true);
+              break;
+          case 'rate_limit':
+              showNotice({ tone: 'error', title: "已达到配额或速率限制", message: providerSettings.profiles.length > 1 ? "所有密钥配置均已受限，请稍后再试或添加新的密钥。" : "已自动重试但仍失败，请稍后再试或更换密钥。" });
+              break;
+          case 'safety':
+              showNotice({ tone: 'error', title: "内容被安全策略拦截", message: "请更换输入内容或调整指令后重试。" });
+              break;
+          case 'empty_response':
+              showNotice({ tone: 'error', title: "模型未返回任何内容", message: "请重试，或换用其他模型。" });
+              break;
+          case 'truncated':
+              showNotice({ tone: 'error', title: "输出过长被截断", message: "生成的代码超出了模型的输出上限，请简化需求或换用输出上限更高的模型。" });
+              break;
+          case 'network':
+              showNotice({ tone: 'error', title: "网络连接失败", message: "无法连接到模型服务，请检查网络或服务地址。" });
+              break;
+          case 'server':
+              showNotice({ tone: 'error', title: "模型服务暂时不可用", message: "服务端出现错误，请稍后重试。" });
+              break;
+          case 'unsupported_input':
+              showNotice({ tone: 'error', title: "当前模型服务不支持此类文件", message: "请上传图片或切换到 Gemini。" });
+              break;
+          default:
+              showNotice({ tone: 'error', title: "生成过程中出现问题", message: "请重试。" });
+      }
+  };
+
+  const handleRetry = (attempt: number, error: GenerationError) => {
+      showNotice({ tone: 'info', title: `请求失败，正在自动重试 (${attempt})...`, message: error.kind === 'rate_limit' ? "已触发速率限制，正在退避等待。" : undefined });
+  };
+
+  const handleFailover = (profile: KeyProfile) => {
+      setProviderSettings(loadProviderSettings());
+      showNotice({ tone: 'info', title: "当前密钥额度受限", message: `已自动切换到「${getProfileLabel(profile)}」继续生成。` });
+  };
+
+  // Aborts any previous request and registers a new one as the current request
+  const beginRequest = (): AbortController => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    return controller;
+  };
+
+  // Only the current request may clear the loading state; a cancelled or
+  // superseded request must not flip `isGenerating` back for its successor.
+  const endRequest = (controller: AbortController) => {
+    if (requestRef.current !== controller) return;
+    requestRef.current = null;
+    setIsGenerating(false);
+    setStreamingHtml('');
+  };
+
+  const handleGenerate = async (promptText: string, pendingInputs: PendingInput[] = []) => {
+    const controller = beginRequest();
     setIsGenerating(true);
+    setStreamingHtml('');
     // Clear active creation to show loading state
     setActiveCreation(null);
 
     try {
-      let imageBase64: string | undefined;
-      let mimeType: string | undefined;
-
-      if (file) {
-        imageBase64 = await fileToBase64(file);
-        mimeType = file.type.toLowerCase();
+      const files = pendingInputs.map(input => input.file);
+      const sourceInputs = await Promise.all(pendingInputs.map(toSourceInput));
+      const inlineInputs = (await Promise.all(sourceInputs.map(toInlineData))).flat();
+
+      let html = '';
+      for await (const partial of bringToLifeStream(promptText, inlineInputs, { signal: controller.signal, onRetry: handleRetry, onFailover: handleFailover })) {
+        if (controller.signal.aborted) return;
+        html = partial;
+        setStreamingHtml(partial);
       }
 
-      const html = await bringToLife(promptText, imageBase64, mimeType);
-      
-      if (html) {
+      if (html && !controller.signal.aborted) {
+        const id = crypto.randomUUID();
         const newCreation: Creation = {
-          id: crypto.randomUUID(),
-          name: file ? file.name : '新创作',
+          id,
+          // Text-only creations are named after the start of their description
+          name: files.length > 1 ? `${files[0].name} 等 ${files.length} 个文件` : files[0]?.name || promptText.slice(0, 24) || '新创作',
           html: html,
-          // Store the full data URL for easy display
-          originalImage: imageBase64 && mimeType ? `data:${mimeType};base64,${imageBase64}` : undefined,
+          // Store the full data URLs for easy display
+          sourceInputs: sourceInputs.length ? sourceInputs : undefined,
           timestamp: new Date(),
+          conversation: [
+            ...(promptText ? [createChatTurn('user', promptText)] : []),
+            createChatTurn('model', files.length ? `根据 ${files.map(file => file.name).join('、')} 生成了初始版本。` : '生成了初始版本。', id),
+          ],
         };
         setActiveCreation(newCreation);
-        // Add to history and enforce limit
-        setHistory(prev => [newCreation, ...prev].slice(0, MAX_HISTORY_ITEMS));
+        addToHistory(newCreation);
       }
 
     } catch (error) {
-      handleError(error);
+      if (!controller.signal.aborted) handleError(error);
     } finally {
-      setIsGenerating(false);
+      endRequest(controller);
     }
   };
 
-  const handleUpdate = async (prompt: string) => {
-    if (!activeCreation) return;
+  // `runtimeErrors` is attached by the console panel's "fix these errors" action
+  const handleUpdate = async (prompt: string, context: Omit<UpdateContext, 'conversation'> = {}) => {
+    if (!activeCreation || !hasPermission(currentUser, 'edit')) return;
+    const controller = beginRequest();
     setIsGenerating(true);
+    setStreamingHtml('');
 
     try {
-        const newHtml = await updateCode(activeCreation.html, prompt);
-        
-        if (newHtml) {
+        const conversation = activeCreation.conversation || [];
+        let newHtml = '';
+        for await (const partial of updateCodeStream(activeCreation.html, prompt, { ...context, conversation }, { signal: controller.signal, onRetry: handleRetry, onFailover: handleFailover })) {
+            if (controller.signal.aborted) return;
+            newHtml = partial;
+            setStreamingHtml(partial);
+        }
+
+        if (newHtml && !controller.signal.aborted) {
+            const { html, summary } = splitChangeSummary(newHtml);
+            const nextVersion = createNextVersion(history, activeCreation, { html });
             const updatedCreation: Creation = {
-                ...activeCreation,
-                id: crypto.randomUUID(), // New ID for history tracking
-                name: `${activeCreation.name} (v2)`, // Indicate versioning
-                html: newHtml,
-                timestamp: new Date()
+                ...nextVersion,
+                conversation: [
+                    ...conversation,
+                    createChatTurn('user', context.targets?.length ? `${prompt}\n（选中的元素：${context.targets.map(target => target.label).join('、')}）` : prompt),
+                    createChatTurn('model', summary || '已按要求更新程序。', nextVersion.id),
+                ],
             };
-            
-            // Add to history, set as active, and enforce limit
-            setHistory(prev => [updatedCreation, ...prev].slice(0, MAX_HISTORY_ITEMS));
+
+            addToHistory(updatedCreation);
             setActiveCreation(updatedCreation);
         }
     } catch (error) {
-        handleError(error);
+        if (!controller.signal.aborted) handleError(error);
     } finally {
-      setIsGenerating(false);
+      endRequest(controller);
     }
   };
 
+  // Regenerates from scratch with one drawn input replaced, keeping the original
+  // instruction. Later edit instructions are not replayed; the result is a new version.
+  const handleReviseSketch = async (inputIndex: number, sketch: Sketch) => {
+    if (!activeCreation || !hasPermission(currentUser, 'edit')) return;
+    const parent = activeCreation;
+    const controller = beginRequest();
+    setIsGenerating(true);
+    setStreamingHtml('');
+
+    try {
+        const previousInputs = getSourceInputs(parent);
+        const name = previousInputs[inputIndex]?.name || '草图.png';
+        const revised = await toSourceInput({ file: await sketchToFile(sketch, name), sketch });
+        const sourceInputs = previousInputs.map((input, index) => index === inputIndex ? revised : input);
+        const inlineInputs = (await Promise.all(sourceInputs.map(toInlineData))).flat();
+        const conversation = parent.conversation || [];
+        const initialPrompt = conversation[0]?.role === 'user' ? conversation[0].text : '';
+
+        let html = '';
+        for await (const partial of bringToLifeStream(initialPrompt, inlineInputs, { signal: controller.signal, onRetry: handleRetry, onFailover: handleFailover })) {
+            if (controller.signal.aborted) return;
+            html = partial;
+            setStreamingHtml(partial);
+        }
+
+        if (html && !controller.signal.aborted) {
+            const nextVersion = createNextVersion(history, parent, { html, sourceInputs, originalImage: undefined });
+            const revisedCreation: Creation = {
+                ...nextVersion,
+                conversation: [
+                    ...conversation,
+                    createChatTurn('user', `修改了草图 ${name}`),
+                    createChatTurn('model', '已根据修改后的草图重新生成。', nextVersion.id),
+                ],
+            };
+            addToHistory(revisedCreation);
+            setActiveCreation(revisedCreation);
+        }
+    } catch (error) {
+        if (!controller.signal.aborted) handleError(error);
+    } finally {
+      endRequest(controller);
+    }
+  };
+
+  // Abort the in-flight request; whatever is active stays on screen
+  const handleCancel = () => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+    setIsGenerating(false);
+    setStreamingHtml('');
+  };
+
   const handleReset = () => {
+    handleCancel();
     setActiveCreation(null);
-    setIsGenerating(false);
   };
 
   const handleSelectCreation = (creation: Creation) => {
     setActiveCreation(creation);
   };
 
-  const handleDeleteCreation = (id: string) => {
+  // Restoring an older version records it as the newest version of the artifact
+  const handleRestoreVersion = (version: Creation) => {
+    if (!hasPermission(currentUser, 'edit')) return;
+    const nextVersion = createNextVersion(history, version, {});
+    const restored: Creation = {
+        ...nextVersion,
+        conversation: [
+            ...(version.conversation || []),
+            createChatTurn('model', `已恢复到 v${getVersionNumber(version)}。`, nextVersion.id),
+        ],
+    };
+    addToHistory(restored);
+    setActiveCreation(restored);
+  };
+
+  const handleSaveManualEdit = (html: string) => {
+    if (!activeCreation || !hasPermission(currentUser, 'edit')) return;
+    const nextVersion = createNextVersion(history, activeCreation, { html });
+    const edited: Creation = {
+        ...nextVersion,
+        conversation: [
+            ...(activeCreation.conversation || []),
+            createChatTurn('user', "手动编辑了代码。", nextVersion.id),
+        ],
+    };
+    addToHistory(edited);
+    setActiveCreation(edited);
+  };
+
+  // Model pass plus validation; the finished project is downloaded as a zip
+  const handleConvertToReact = async (creation: Creation) => {
+    if (isConvertingToReact) return;
+    setIsConvertingToReact(true);
+    try {
+        const files = await convertCreationToReact(creation, { onRetry: handleRetry, onFailover: handleFailover });
+        downloadBlob(buildReactProject(creation, files), `${toSafeFileName(creation.name)}-react.zip`);
+    } catch (error) {
+        handleError(error);
+    } finally {
+        setIsConvertingToReact(false);
+    }
+  };
+
+  const handleToggleNetworkAccess = (creation: Creation) => {
+    if (!hasPermission(currentUser, 'edit')) return;
+    const updated: Creation = { ...creation, allowNetwork: !creation.allowNetwork };
+    replaceInHistory(updated);
+    setActiveCreation(updated);
+  };
+
+  // Deletes an artifact together with all of its versions
+  const handleDeleteCreation = (rootId: string) => {
+    if (!hasPermission(currentUser, 'delete')) return;
     // If we are deleting the currently active creation, close the preview
-    if (activeCreation?.id === id) {
+    if (activeCreation && getRootId(activeCreation) === rootId) {
         setActiveCreation(null);
     }
 
-    setHistory(prev => {
-        const newHistory = prev.filter(item => item.id !== id);
-        // If history is completely cleared, clear local storage
-        if (newHistory.length === 0) {
-             localStorage.removeItem('gemini_app_history');
-        }
-        return newHistory;
-    });
+    const ids = history.filter(item => getRootId(item) === rootId).map(item => item.id);
+    setHistory(prev => prev.filter(item => getRootId(item) !== rootId));
+    Promise.all(ids.map(deleteCreation))
+        .catch(e => console.error("Failed to delete creation", e))
+        .finally(refreshStorageUsage);
   };
 
   const handleImportClick = () => {
@@ -252,24 +507,24 @@ const App: React.FC = () => {
                 const importedCreation: Creation = {
                     ...parsed,
                     timestamp: new Date(parsed.timestamp || Date.now()),
-                    id: parsed.id || crypto.randomUUID()
+                    id: parsed.id || crypto.randomUUID(),
+                    // Network access is only granted through the in-app confirmation, never by a file
+                    allowNetwork: false,
                 };
                 
-                // Add to history if not already there (by ID check), ensure limit
-                setHistory(prev => {
-                    const exists = prev.some(c => c.id === importedCreation.id);
-                    if (exists) return prev;
-                    return [importedCreation, ...prev].slice(0, MAX_HISTORY_ITEMS);
-                });
+                // Add to history if not already there (by ID check)
+                if (!history.some(c => c.id === importedCreation.id)) {
+                    addToHistory(importedCreation);
+                }
 
                 // Set as active immediately
                 setActiveCreation(importedCreation);
             } else {
-                alert("无效的文件格式。");
+                showNotice({ tone: 'error', title: "无效的文件格式", message: "导入的文件需要包含 name 和 html 字段。" });
             }
         } catch (err) {
             console.error("Import error", err);
-            alert("导入失败。");
+            showNotice({ tone: 'error', title: "导入失败", message: "无法解析该文件。" });
         }
         // Reset input
         if (importInputRef.current) importInputRef.current.value = '';
@@ -277,6 +532,17 @@ const App: React.FC = () => {
     reader.readAsText(file);
   };
 
+  const handleLogout = () => {
+    logout();
+    setCurrentUser(null);
+  };
+
+  // Roles may have changed (including our own), so re-read the session
+  const handleCloseUserAdmin = () => {
+    setIsUserAdminOpen(false);
+    setCurrentUser(getSessionUser());
+  };
+
   const handleApiKeySaved = () => {
       setIsApiKeyModalOpen(false);
       checkApiConnection(); // Re-validate when user saves
@@ -297,6 +563,7 @@ const App: React.FC = () => {
                 ${apiStatus === 'checking' ? 'bg-zinc-800/50 border-zinc-700 text-zinc-400' : ''}
                 ${apiStatus === 'valid' ? 'bg-green-500/10 border-green-500/20 text-green-400 shadow-[0_0_15px_rgba(34,197,94,0.1)]' : ''}
                 ${apiStatus === 'invalid' ? 'bg-red-500/10 border-red-500/20 text-red-400' : ''}
+                ${apiStatus === 'locked' ? 'bg-amber-500/10 border-amber-500/20 text-amber-400' : ''}
             `}>
                 {apiStatus === 'checking' && (
                     <>
@@ -316,13 +583,28 @@ const App: React.FC = () => {
                         <span className="text-[10px] font-mono font-medium">API 错误</span>
                     </>
                 )}
+                {apiStatus === 'locked' && (
+                    <>
+                        <div className="w-1.5 h-1.5 bg-amber-500 rounded-full"></div>
+                        <span className="text-[10px] font-mono font-medium">密钥已锁定</span>
+                    </>
+                )}
             </div>
         )}
 
+        {providerSettings.profiles.length > 1 && (
+            <KeyProfilePicker
+                profiles={providerSettings.profiles}
+                activeId={providerSettings.activeId}
+                onSelect={handleSelectProfile}
+                onValidateAll={handleValidateAllProfiles}
+            />
+        )}
+
         <button
             onClick={() => setIsApiKeyModalOpen(true)}
             className="flex items-center gap-2 px-3 py-2 text-zinc-400 hover:text-white bg-zinc-900/50 hover:bg-zinc-800 rounded-full border border-zinc-800 transition-all backdrop-blur-sm group hover:border-zinc-600"
-            title="配置 API 密钥"
+            title="配置模型服务与 API 密钥"
         >
             <Cog6ToothIcon className="w-5 h-5 group-hover:rotate-90 transition-transform duration-500" />
             <span className="text-xs font-medium">配置 Key</span>
@@ -350,7 +632,7 @@ const App: React.FC = () => {
 
           {/* 2. Input Section */}
           <div className="w-full flex justify-center mb-8">
-              <InputArea onGenerate={handleGenerate} isGenerating={isGenerating} disabled={isFocused} />
+              <InputArea onGenerate={handleGenerate} isGenerating={isGenerating} disabled={isFocused} onNotice={showNotice} />
           </div>
 
         </div>
@@ -362,6 +644,9 @@ const App: React.FC = () => {
                     history={history} 
                     onSelect={handleSelectCreation} 
                     onDelete={handleDeleteCreation} 
+                    canDelete={hasPermission(currentUser, 'delete')}
+                    storageUsage={storageUsage}
+                    onChangeRetentionLimit={handleChangeRetentionLimit}
                 />
             </div>
             
@@ -389,11 +674,25 @@ const App: React.FC = () => {
       {/* Live Preview - Always mounted for smooth transition */}
       <LivePreview
         creation={activeCreation}
+        versions={activeCreation ? getVersions(history, activeCreation) : []}
+        onSelectVersion={handleSelectCreation}
+        onRestoreVersion={handleRestoreVersion}
+        onToggleNetworkAccess={handleToggleNetworkAccess}
+        onConvertToReact={handleConvertToReact}
+        isConvertingToReact={isConvertingToReact}
         isLoading={isGenerating}
+        streamingHtml={streamingHtml}
         isFocused={isFocused}
         onReset={handleReset}
+        onCancel={handleCancel}
         onUpdate={handleUpdate}
+        onReviseSketch={handleReviseSketch}
+        onSaveManualEdit={handleSaveManualEdit}
         onOpenSettings={() => setIsApiKeyModalOpen(true)}
+        currentUser={currentUser}
+        onAuthenticated={setCurrentUser}
+        onLogout={handleLogout}
+        onOpenUserAdmin={() => setIsUserAdminOpen(true)}
       />
 
       {/* Subtle Import Button (Bottom Right) */}
@@ -415,6 +714,16 @@ const App: React.FC = () => {
         />
       </div>
 
+      {/* Local Account Management (admins only) */}
+      <UserAdminModal
+        isOpen={isUserAdminOpen}
+        currentUser={currentUser}
+        onClose={handleCloseUserAdmin}
+      />
+
+      {/* Non-blocking status & error notices */}
+      <StatusToast notice={notice} onDismiss={dismissNotice} />
+
       {/* API Key Modal */}
       <ApiKeyModal 
         isOpen={isApiKeyModalOpen} 
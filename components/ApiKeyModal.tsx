@@ -3,7 +3,10 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useEffect } from 'react';
-import { KeyIcon, EyeIcon, EyeSlashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { KeyIcon, EyeIcon, EyeSlashIcon, XMarkIcon, LockClosedIcon, ShieldCheckIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { ProviderKind } from '../services/providers/types';
+import { KeyProfile, ProviderSettings, PROVIDER_LABELS, DEFAULT_PROVIDER_CONFIGS, createProfile, getProfileLabel, loadProviderSettings, saveProviderSettings, requiresApiKey, enableKeyVault, disableKeyVault } from '../services/providers/registry';
+import { VaultError, VaultStatus, changeVaultPassphrase, getVaultStatus, lockVault, unlockVault } from '../services/vault';
 
 interface ApiKeyModalProps {
   isOpen: boolean;
@@ -11,42 +14,272 @@ interface ApiKeyModalProps {
   onSave: () => void;
 }
 
+const PROVIDER_HINTS: Record<ProviderKind, string> = {
+  gemini: '使用您自己的 Google Gemini API Key，可填写任意 Gemini 模型 ID。',
+  openai: '任意兼容 OpenAI Chat Completions 协议的服务（OpenAI、OpenRouter、vLLM、LM Studio 等）。',
+  ollama: '连接本地运行的 Ollama 服务，数据不会离开您的电脑，适合机密草图。',
+};
+
+const passphraseInputClassName = "w-full bg-black border border-zinc-700 text-white px-3 py-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm";
+
+const describeVaultError = (err: unknown) => {
+  const kind = err instanceof VaultError ? err.kind : undefined;
+  switch (kind) {
+    case 'wrong_passphrase': return "口令错误";
+    case 'weak_passphrase': return "口令至少需要 8 个字符";
+    default: return "操作失败";
+  }
+};
+
+// Shown instead of the settings form while the saved keys are encrypted and locked
+const UnlockVaultForm = ({ onUnlocked, onForget }: { onUnlocked: () => void, onForget: () => void }) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError("");
+    try {
+      await unlockVault(passphrase);
+      onUnlocked();
+    } catch (err) {
+      setError(describeVaultError(err));
+      setPassphrase("");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleForget = () => {
+    if (window.confirm("忘记口令将永久删除已加密保存的所有 API Key，需要重新填写。确定继续吗？")) {
+      onForget();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <input
+        type="password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        placeholder="输入口令以解锁 API Key"
+        autoComplete="current-password"
+        autoFocus
+        className={passphraseInputClassName}
+      />
+      <button
+        type="submit"
+        disabled={isBusy || !passphrase}
+        className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 text-white font-medium py-2.5 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <LockClosedIcon className="w-4 h-4" />
+        {isBusy ? '解锁中...' : '解锁'}
+      </button>
+      {error && <p className="text-red-400 text-xs text-center">{error}</p>}
+      <button type="button" onClick={handleForget} className="w-full text-xs text-zinc-500 hover:text-red-400 transition-colors">
+        忘记口令？
+      </button>
+    </form>
+  );
+};
+
+// Set, change or remove the passphrase that encrypts saved keys
+const VaultSection = ({ status, onChange }: { status: VaultStatus, onChange: () => void }) => {
+  const [mode, setMode] = useState<'idle' | 'set' | 'change'>('idle');
+  const [currentPassphrase, setCurrentPassphrase] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [error, setError] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const reset = () => {
+    setMode('idle');
+    setCurrentPassphrase("");
+    setPassphrase("");
+    setConfirmPassphrase("");
+    setError("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase !== confirmPassphrase) {
+      setError("两次输入的口令不一致");
+      return;
+    }
+    setIsBusy(true);
+    setError("");
+    try {
+      if (mode === 'change') {
+        await changeVaultPassphrase(currentPassphrase, passphrase);
+      } else {
+        await enableKeyVault(passphrase);
+      }
+      reset();
+      onChange();
+    } catch (err) {
+      setError(describeVaultError(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDisable = () => {
+    if (window.confirm("移除口令保护后，API Key 将以明文形式保存在此浏览器中。确定继续吗？")) {
+      disableKeyVault();
+      onChange();
+    }
+  };
+
+  const handleLock = () => {
+    lockVault();
+    onChange();
+  };
+
+  if (mode !== 'idle') {
+    return (
+      <form onSubmit={handleSubmit} className="pt-4 border-t border-zinc-800 space-y-2">
+        {mode === 'change' && (
+          <input type="password" value={currentPassphrase} onChange={(e) => setCurrentPassphrase(e.target.value)} placeholder="当前口令" autoComplete="current-password" className={passphraseInputClassName} />
+        )}
+        <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="新口令（至少 8 个字符）" autoComplete="new-password" className={passphraseInputClassName} />
+        <input type="password" value={confirmPassphrase} onChange={(e) => setConfirmPassphrase(e.target.value)} placeholder="确认新口令" autoComplete="new-password" className={passphraseInputClassName} />
+        {error && <p className="text-red-400 text-xs text-center">{error}</p>}
+        <div className="flex gap-2">
+          <button type="button" onClick={reset} className="flex-1 bg-zinc-900 hover:bg-zinc-800 text-zinc-400 text-sm py-2 rounded-lg border border-zinc-800 transition-colors">
+            取消
+          </button>
+          <button
+            type="submit"
+            disabled={isBusy || !passphrase || (mode === 'change' && !currentPassphrase)}
+            className="flex-1 bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isBusy ? '加密中...' : mode === 'change' ? '修改口令' : '启用口令保护'}
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="pt-4 border-t border-zinc-800 flex items-center gap-2 text-xs">
+      <ShieldCheckIcon className={`w-4 h-4 ${status === 'disabled' ? 'text-zinc-600' : 'text-green-500'}`} />
+      <span className="text-zinc-400 flex-1">{status === 'disabled' ? '密钥以明文保存' : '密钥已用口令加密'}</span>
+      {status === 'disabled' ? (
+        <button onClick={() => setMode('set')} className="text-blue-400 hover:text-blue-300">设置口令</button>
+      ) : (
+        <>
+          <button onClick={handleLock} className="text-zinc-400 hover:text-zinc-200">锁定</button>
+          <button onClick={() => setMode('change')} className="text-blue-400 hover:text-blue-300">修改口令</button>
+          <button onClick={handleDisable} className="text-zinc-500 hover:text-red-400">移除</button>
+        </>
+      )}
+    </div>
+  );
+};
+
 export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave }) => {
-  const [apiKey, setApiKey] = useState('');
+  const [settings, setSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [editingId, setEditingId] = useState(settings.activeId);
   const [showKey, setShowKey] = useState(false);
   const [hasExistingKey, setHasExistingKey] = useState(false);
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>(getVaultStatus);
+
+  const hasStoredKey = (id: string) => !!loadProviderSettings().profiles.find(item => item.id === id)?.apiKey;
+
+  // Re-read everything, since unlocking or removing the vault changes which keys are visible
+  const reload = () => {
+    const stored = loadProviderSettings();
+    setSettings(stored);
+    setEditingId(stored.activeId);
+    setHasExistingKey(hasStoredKey(stored.activeId));
+    setVaultStatus(getVaultStatus());
+  };
 
   useEffect(() => {
-    if (isOpen) {
-      const storedKey = localStorage.getItem('user_gemini_api_key');
-      if (storedKey) {
-          setApiKey(storedKey);
-          setHasExistingKey(true);
-      } else {
-          setHasExistingKey(false);
-      }
-    }
+    if (isOpen) reload();
   }, [isOpen]);
 
-  const handleSave = () => {
-    if (apiKey.trim()) {
-      localStorage.setItem('user_gemini_api_key', apiKey.trim());
+  const profile = settings.profiles.find(item => item.id === editingId) || settings.profiles[0];
+  const needsKey = requiresApiKey(profile.kind);
+  const isComplete = (item: KeyProfile) => !!item.model.trim() && (!requiresApiKey(item.kind) || !!item.apiKey?.trim());
+  const canSave = settings.profiles.every(isComplete);
+
+  const updateProfile = (changes: Partial<KeyProfile>) => {
+    setSettings(prev => ({
+      ...prev,
+      profiles: prev.profiles.map(item => item.id === profile.id ? { ...item, ...changes } : item),
+    }));
+  };
+
+  const handleSelectProfile = (id: string) => {
+    setEditingId(id);
+    setHasExistingKey(hasStoredKey(id));
+  };
+
+  // Switching provider resets the model and address to that provider's defaults
+  const handleSelectProvider = (kind: ProviderKind) => {
+    if (kind === profile.kind) return;
+    const { model, baseUrl } = DEFAULT_PROVIDER_CONFIGS[kind];
+    updateProfile({ kind, model, baseUrl });
+  };
+
+  const handleAddProfile = () => {
+    const added = createProfile('gemini');
+    setSettings(prev => ({ ...prev, profiles: [...prev.profiles, added] }));
+    setEditingId(added.id);
+    setHasExistingKey(false);
+  };
+
+  const handleRemoveProfile = () => {
+    const remaining = settings.profiles.filter(item => item.id !== profile.id);
+    if (remaining.length === 0) return;
+    setSettings(prev => ({
+      activeId: prev.activeId === profile.id ? remaining[0].id : prev.activeId,
+      profiles: remaining,
+    }));
+    handleSelectProfile(remaining[0].id);
+  };
+
+  // Saving also makes the profile being edited the active one
+  const handleSave = async () => {
+    if (canSave) {
+      await saveProviderSettings({
+        activeId: profile.id,
+        profiles: settings.profiles.map(item => ({
+          ...item,
+          label: item.label?.trim() || undefined,
+          model: item.model.trim(),
+          baseUrl: item.baseUrl?.trim() || undefined,
+          apiKey: item.apiKey?.trim() || undefined,
+        })),
+      });
       onSave();
     }
   };
 
-  const handleClear = () => {
-    localStorage.removeItem('user_gemini_api_key');
-    setApiKey('');
+  const handleClear = async () => {
+    const stored = loadProviderSettings();
+    await saveProviderSettings({
+      ...stored,
+      profiles: stored.profiles.map(item => item.id === profile.id ? { ...item, apiKey: undefined } : item),
+    });
+    updateProfile({ apiKey: '' });
     setHasExistingKey(false);
   };
 
+  const handleForgetVault = () => {
+    disableKeyVault();
+    reload();
+  };
+
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
       <div className="w-full max-w-md bg-[#121214] border border-zinc-800 rounded-xl shadow-2xl p-6 relative">
-        <button 
+        <button
           onClick={onClose}
           className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-300"
         >
@@ -57,60 +290,158 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSav
           <div className="w-12 h-12 rounded-full bg-blue-500/10 flex items-center justify-center mb-4 border border-blue-500/20">
             <KeyIcon className="w-6 h-6 text-blue-500" />
           </div>
-          <h2 className="text-xl font-bold text-white">配置 API 密钥</h2>
+          <h2 className="text-xl font-bold text-white">配置模型服务</h2>
           <p className="text-zinc-400 text-sm mt-2 text-center">
-            要使用此应用，您需要提供自己的 Google Gemini API Key。密钥仅存储在您的本地浏览器中。
+            {vaultStatus === 'locked'
+              ? 'API Key 已用口令加密保存，请先解锁。解锁后密钥仅保留在内存中，刷新页面需重新解锁。'
+              : `${PROVIDER_HINTS[profile.kind]} 所有配置仅存储在您的本地浏览器中。`}
           </p>
         </div>
 
-        <div className="space-y-4">
-          <div className="relative">
-            <input
-              type={showKey ? "text" : "password"}
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              placeholder="粘贴您的 API Key (AIzaSy...)"
-              className="w-full bg-black border border-zinc-700 text-white px-4 py-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent pr-10 font-mono text-sm"
-            />
+        {vaultStatus === 'locked' ? (
+          <UnlockVaultForm onUnlocked={onSave} onForget={handleForgetVault} />
+        ) : (
+          <div className="space-y-4">
+            {/* Key Profile Picker */}
+            <div className="flex gap-2">
+              <select
+                value={profile.id}
+                onChange={(e) => handleSelectProfile(e.target.value)}
+                className="flex-1 min-w-0 bg-black border border-zinc-700 text-zinc-200 text-sm rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {settings.profiles.map(item => (
+                  <option key={item.id} value={item.id}>{getProfileLabel(item)}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleAddProfile}
+                className="p-2 rounded-lg border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+                title="新增密钥配置"
+              >
+                <PlusIcon className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={handleRemoveProfile}
+                disabled={settings.profiles.length < 2}
+                className="p-2 rounded-lg border border-zinc-700 text-zinc-400 hover:text-red-400 hover:bg-zinc-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                title="删除此配置"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-[10px] font-mono uppercase tracking-wider text-zinc-500 mb-1.5">
+                名称 <span className="normal-case text-zinc-600">(可选)</span>
+              </label>
+              <input
+                type="text"
+                value={profile.label || ''}
+                onChange={(e) => updateProfile({ label: e.target.value })}
+                placeholder="例如 团队共享 Key"
+                className="w-full bg-black border border-zinc-700 text-white px-4 py-2.5 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+              />
+            </div>
+
+            {/* Provider Picker */}
+            <div className="grid grid-cols-3 gap-1 p-1 bg-black border border-zinc-800 rounded-lg">
+              {(Object.keys(PROVIDER_LABELS) as ProviderKind[]).map(kind => (
+                <button
+                  key={kind}
+                  type="button"
+                  onClick={() => handleSelectProvider(kind)}
+                  className={`py-2 rounded-md text-xs font-medium transition-colors ${profile.kind === kind ? 'bg-zinc-800 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+                >
+                  {PROVIDER_LABELS[kind]}
+                </button>
+              ))}
+            </div>
+
+            <div>
+              <label className="block text-[10px] font-mono uppercase tracking-wider text-zinc-500 mb-1.5">模型 ID</label>
+              <input
+                type="text"
+                value={profile.model}
+                onChange={(e) => updateProfile({ model: e.target.value })}
+                placeholder="例如 gemini-2.5-pro"
+                className="w-full bg-black border border-zinc-700 text-white px-4 py-2.5 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+              />
+            </div>
+
+            {profile.kind !== 'gemini' && (
+              <div>
+                <label className="block text-[10px] font-mono uppercase tracking-wider text-zinc-500 mb-1.5">服务地址</label>
+                <input
+                  type="text"
+                  value={profile.baseUrl || ''}
+                  onChange={(e) => updateProfile({ baseUrl: e.target.value })}
+                  placeholder={profile.kind === 'ollama' ? 'http://localhost:11434' : 'https://api.openai.com/v1'}
+                  className="w-full bg-black border border-zinc-700 text-white px-4 py-2.5 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+                />
+              </div>
+            )}
+
+            {profile.kind !== 'ollama' && (
+              <div>
+                <label className="block text-[10px] font-mono uppercase tracking-wider text-zinc-500 mb-1.5">
+                  API Key {!needsKey && <span className="normal-case text-zinc-600">(可选)</span>}
+                </label>
+                <div className="relative">
+                  <input
+                    type={showKey ? "text" : "password"}
+                    value={profile.apiKey || ''}
+                    onChange={(e) => updateProfile({ apiKey: e.target.value })}
+                    placeholder={profile.kind === 'gemini' ? "粘贴您的 API Key (AIzaSy...)" : "粘贴您的 API Key (sk-...)"}
+                    className="w-full bg-black border border-zinc-700 text-white px-4 py-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent pr-10 font-mono text-sm"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowKey(!showKey)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-zinc-500 hover:text-zinc-300"
+                  >
+                    {showKey ? <EyeSlashIcon className="w-4 h-4" /> : <EyeIcon className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+            )}
+
             <button
-              type="button"
-              onClick={() => setShowKey(!showKey)}
-              className="absolute right-3 top-1/2 -translate-y-1/2 text-zinc-500 hover:text-zinc-300"
+              onClick={handleSave}
+              disabled={!canSave}
+              className="w-full bg-blue-600 hover:bg-blue-500 text-white font-medium py-2.5 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {showKey ? <EyeSlashIcon className="w-4 h-4" /> : <EyeIcon className="w-4 h-4" />}
+              {hasExistingKey ? '更新配置' : '保存并继续'}
             </button>
-          </div>
 
-          <button
-            onClick={handleSave}
-            disabled={!apiKey.trim()}
-            className="w-full bg-blue-600 hover:bg-blue-500 text-white font-medium py-2.5 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {hasExistingKey ? '更新 API 密钥' : '保存并继续'}
-          </button>
-          
-          {hasExistingKey && (
-               <button
-                onClick={handleClear}
-                className="w-full bg-zinc-900 hover:bg-zinc-800 text-zinc-400 hover:text-red-400 font-medium py-2.5 rounded-lg transition-colors text-sm border border-zinc-800"
-              >
-                清除保存的密钥
-              </button>
-          )}
-
-          <div className="pt-4 border-t border-zinc-800 text-center">
-            <a 
-              href="https://aistudio.google.com/app/apikey" 
-              target="_blank" 
-              rel="noopener noreferrer"
-              className="text-xs text-blue-400 hover:text-blue-300 hover:underline flex items-center justify-center gap-1"
-            >
-              没有密钥？点击此处在 Google AI Studio 免费获取
-              <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" /></svg>
-            </a>
+            {hasExistingKey && (
+                 <button
+                  onClick={handleClear}
+                  className="w-full bg-zinc-900 hover:bg-zinc-800 text-zinc-400 hover:text-red-400 font-medium py-2.5 rounded-lg transition-colors text-sm border border-zinc-800"
+                >
+                  清除保存的密钥
+                </button>
+            )}
+
+            {profile.kind === 'gemini' && (
+              <div className="pt-4 border-t border-zinc-800 text-center">
+                <a
+                  href="https://aistudio.google.com/app/apikey"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-blue-400 hover:text-blue-300 hover:underline flex items-center justify-center gap-1"
+                >
+                  没有密钥？点击此处在 Google AI Studio 免费获取
+                  <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" /></svg>
+                </a>
+              </div>
+            )}
+
+            <VaultSection status={vaultStatus} onChange={reload} />
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
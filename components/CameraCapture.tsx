@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowPathIcon, CameraIcon, CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+type FacingMode = 'environment' | 'user';
+
+export const isCameraSupported = () => !!navigator.mediaDevices?.getUserMedia;
+
+const describeCameraError = (error: unknown) => {
+  const name = error instanceof DOMException ? error.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return "无法访问摄像头，请在浏览器设置中允许摄像头权限。";
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return "未检测到可用的摄像头。";
+  if (name === 'NotReadableError') return "摄像头正被其他应用占用。";
+  return "无法启动摄像头。";
+};
+
+// Takes a photo of a whiteboard, sketch or screen with the device camera.
+export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // Phones default to the rear camera, which is what you point at a whiteboard
+  const [facingMode, setFacingMode] = useState<FacingMode>('environment');
+  const [error, setError] = useState<string | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [photo, setPhoto] = useState<{ blob: Blob, url: string } | null>(null);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setIsReady(false);
+    setError(null);
+    navigator.mediaDevices.getUserMedia({ video: { facingMode, width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(media => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        if (videoRef.current) videoRef.current.srcObject = media;
+      })
+      .catch(err => {
+        console.error("Camera error:", err);
+        if (!cancelled) setError(describeCameraError(err));
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [facingMode]);
+
+  useEffect(() => {
+    return () => { if (photo) URL.revokeObjectURL(photo.url); };
+  }, [photo]);
+
+  const handleTakePhoto = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')!.drawImage(video, 0, 0);
+    canvas.toBlob(blob => {
+      if (blob) setPhoto({ blob, url: URL.createObjectURL(blob) });
+    }, 'image/jpeg', 0.92);
+  };
+
+  const handleUsePhoto = () => {
+    if (!photo) return;
+    const stamp = new Date().toTimeString().slice(0, 8).replace(/:/g, '');
+    onCapture(new File([photo.blob], `拍摄-${stamp}.jpg`, { type: 'image/jpeg' }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-3xl flex flex-col bg-[#121214] border border-zinc-800 rounded-xl shadow-2xl p-6 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-300">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+
+        <div className="flex items-center gap-3 mb-4 pr-8">
+          <CameraIcon className="w-5 h-5 text-blue-500 shrink-0" />
+          <div>
+            <h2 className="text-base font-bold text-white">拍照输入</h2>
+            <p className="text-zinc-500 text-xs">对准白板、草图或屏幕拍一张照片作为输入。</p>
+          </div>
+        </div>
+
+        <div className="relative aspect-video bg-black rounded-lg overflow-hidden flex items-center justify-center">
+          {error ? (
+            <p className="text-red-400 text-sm text-center px-6">{error}</p>
+          ) : (
+            <>
+              <video
+                ref={videoRef}
+                autoPlay
+                playsInline
+                muted
+                onLoadedMetadata={() => setIsReady(true)}
+                className={`w-full h-full object-contain ${photo ? 'hidden' : ''}`}
+              />
+              {photo && <img src={photo.url} alt="拍摄预览" className="w-full h-full object-contain" />}
+              {!isReady && !photo && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 pt-4 mt-4 border-t border-zinc-800 text-xs">
+          {!photo && (
+            <button
+              onClick={() => setFacingMode(mode => mode === 'environment' ? 'user' : 'environment')}
+              disabled={!!error}
+              className="flex items-center gap-1.5 text-zinc-400 hover:text-white disabled:opacity-30"
+            >
+              <ArrowPathIcon className="w-4 h-4" />
+              切换摄像头
+            </button>
+          )}
+          <div className="ml-auto flex items-center gap-2">
+            {photo ? (
+              <>
+                <button onClick={() => setPhoto(null)} className="text-zinc-400 hover:text-white px-3 py-2">重拍</button>
+                <button
+                  onClick={handleUsePhoto}
+                  className="flex items-center gap-1.5 bg-blue-600 hover:bg-blue-500 text-white font-medium px-4 py-2 rounded-lg transition-colors"
+                >
+                  <CheckIcon className="w-4 h-4" />
+                  使用照片
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={handleTakePhoto}
+                disabled={!isReady || !!error}
+                className="flex items-center gap-1.5 bg-blue-600 hover:bg-blue-500 text-white font-medium px-4 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <CameraIcon className="w-4 h-4" />
+                拍照
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
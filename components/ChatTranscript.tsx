@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef } from 'react';
+import { SparklesIcon, UserIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { ChatTurn, Creation } from './CreationHistory';
+import { getVersionNumber } from '../services/versions';
+
+interface ChatTranscriptProps {
+  conversation: ChatTurn[];
+  versions: Creation[];
+  activeId: string;
+  onSelectVersion: (creation: Creation) => void;
+  onClose: () => void;
+}
+
+// Side panel listing the edit conversation that led to the active version.
+export const ChatTranscript: React.FC<ChatTranscriptProps> = ({ conversation, versions, activeId, onSelectVersion, onClose }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [conversation.length]);
+
+  return (
+    <div className="w-full md:w-80 h-1/2 md:h-full border-t md:border-t-0 md:border-l border-zinc-800 bg-[#0c0c0e] flex flex-col shrink-0">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-zinc-800">
+        <span className="text-[10px] font-mono uppercase tracking-wider text-zinc-500">对话记录</span>
+        <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300" title="关闭对话记录">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-4">
+        {conversation.length === 0 ? (
+          <p className="text-xs text-zinc-600 text-center mt-8">还没有修改记录。在下方输入指令开始对话。</p>
+        ) : conversation.map(turn => {
+          const version = versions.find(v => v.id === turn.versionId);
+          const isUser = turn.role === 'user';
+          return (
+            <div key={turn.id} className={`flex gap-2 ${isUser ? 'flex-row-reverse' : ''}`}>
+              <div className={`w-6 h-6 rounded-full flex items-center justify-center shrink-0 border ${isUser ? 'bg-zinc-800 border-zinc-700 text-zinc-400' : 'bg-blue-500/10 border-blue-500/20 text-blue-400'}`}>
+                {isUser ? <UserIcon className="w-3.5 h-3.5" /> : <SparklesIcon className="w-3.5 h-3.5" />}
+              </div>
+              <div className={`max-w-[85%] flex flex-col ${isUser ? 'items-end' : 'items-start'}`}>
+                <div className={`px-3 py-2 rounded-lg text-xs leading-relaxed whitespace-pre-wrap break-words ${isUser ? 'bg-zinc-800 text-zinc-200' : 'bg-zinc-900 border border-zinc-800 text-zinc-300'}`}>
+                  {turn.text}
+                </div>
+                <div className="flex items-center gap-2 mt-1 text-[10px] font-mono text-zinc-600">
+                  <span>{new Date(turn.timestamp).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' })}</span>
+                  {version && (
+                    <button
+                      onClick={() => onSelectVersion(version)}
+                      className={`px-1.5 rounded border transition-colors ${version.id === activeId ? 'border-blue-500/40 text-blue-400' : 'border-zinc-800 hover:text-zinc-300 hover:border-zinc-600'}`}
+                      title="查看此版本"
+                    >
+                      v{getVersionNumber(version)}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
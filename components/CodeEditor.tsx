@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useRef } from 'react';
+import { highlightHtml } from '../services/highlight';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  readOnly?: boolean;
+  // Range to mark, e.g. the current search match; shown even when the editor is not focused
+  mark?: { start: number, end: number };
+  textareaRef?: React.RefObject<HTMLTextAreaElement>;
+}
+
+const INDENT = '  ';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// A transparent textarea laid over a highlighted copy of the same text, so editing
+// keeps native selection, undo and IME behaviour while still showing colours.
+export const CodeEditor: React.FC<CodeEditorProps> = ({ value, onChange, readOnly, mark, textareaRef }) => {
+  const ownRef = useRef<HTMLTextAreaElement>(null);
+  const inputRef = textareaRef || ownRef;
+  const layersRef = useRef<HTMLPreElement[]>([]);
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  const highlighted = useMemo(() => highlightHtml(value), [value]);
+  const lineCount = useMemo(() => value.split('\n').length, [value]);
+  const marked = mark && mark.end > mark.start
+    ? `${escapeHtml(value.slice(0, mark.start))}<mark class="bg-amber-400/40 text-transparent rounded-sm">${escapeHtml(value.slice(mark.start, mark.end))}</mark>`
+    : null;
+
+  const syncScroll = () => {
+    const input = inputRef.current;
+    if (!input) return;
+    for (const layer of layersRef.current) {
+      if (!layer) continue;
+      layer.scrollTop = input.scrollTop;
+      layer.scrollLeft = input.scrollLeft;
+    }
+    if (gutterRef.current) gutterRef.current.scrollTop = input.scrollTop;
+  };
+
+  useEffect(syncScroll, [highlighted, marked]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab' || e.shiftKey || e.ctrlKey || e.metaKey || e.altKey || readOnly) return;
+    e.preventDefault();
+    // execCommand keeps the change on the browser's undo stack
+    if (!document.execCommand('insertText', false, INDENT)) {
+      const input = e.currentTarget;
+      const { selectionStart, selectionEnd } = input;
+      onChange(value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd));
+      requestAnimationFrame(() => input.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length));
+    }
+  };
+
+  const layerClass = 'absolute inset-0 m-0 p-3 overflow-hidden whitespace-pre font-mono text-[12px] leading-5 pointer-events-none';
+
+  return (
+    <div className="flex-1 min-h-0 flex bg-zinc-950">
+      <div ref={gutterRef} aria-hidden="true" className="shrink-0 overflow-hidden py-3 pl-3 pr-2 text-right font-mono text-[12px] leading-5 text-zinc-600 select-none border-r border-zinc-800/60">
+        {Array.from({ length: lineCount }, (_, i) => <div key={i}>{i + 1}</div>)}
+      </div>
+      <div className="relative flex-1 min-w-0">
+        {marked !== null && (
+          <pre
+            ref={el => { layersRef.current[0] = el!; }}
+            aria-hidden="true"
+            className={`${layerClass} text-transparent`}
+            dangerouslySetInnerHTML={{ __html: marked }}
+          />
+        )}
+        <pre
+          ref={el => { layersRef.current[1] = el!; }}
+          aria-hidden="true"
+          className={`${layerClass} text-zinc-300`}
+          // Trailing newline keeps the last line's height in step with the textarea
+          dangerouslySetInnerHTML={{ __html: `${highlighted}\n` }}
+        />
+        <textarea
+          ref={inputRef}
+          value={value}
+          onChange={e => onChange(e.target.value)}
+          onScroll={syncScroll}
+          onKeyDown={handleKeyDown}
+          readOnly={readOnly}
+          spellCheck={false}
+          autoCapitalize="off"
+          autoComplete="off"
+          wrap="off"
+          aria-label="源代码"
+          className="absolute inset-0 w-full h-full resize-none p-3 overflow-auto whitespace-pre font-mono text-[12px] leading-5 bg-transparent text-transparent caret-zinc-100 selection:bg-blue-500/30 outline-none"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,213 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowUturnLeftIcon, Bars3BottomLeftIcon, ChevronDownIcon, ChevronUpIcon, MagnifyingGlassIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { CodeEditor } from './CodeEditor';
+import { formatHtml } from '../services/formatter';
+
+interface CodePanelProps {
+  // Source of the active version; the draft is compared against it
+  html: string;
+  draft: string;
+  onDraftChange: (html: string) => void;
+  canEdit: boolean;
+  onSave: () => void;
+  onClose: () => void;
+}
+
+// Editor line height (leading-5), used to scroll a match into view
+const LINE_HEIGHT = 20;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findMatches = (text: string, query: string, matchCase: boolean): number[] => {
+  if (!query) return [];
+  const pattern = new RegExp(escapeRegExp(query), matchCase ? 'g' : 'gi');
+  return Array.from(text.matchAll(pattern), match => match.index!);
+};
+
+// Side panel showing the active version's HTML with formatting, find/replace and
+// saving the edited source as a new version.
+export const CodePanel: React.FC<CodePanelProps> = ({ html, draft, onDraftChange, canEdit, onSave, onClose }) => {
+  const [showFind, setShowFind] = useState(false);
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [matchCase, setMatchCase] = useState(false);
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [isFormatting, setIsFormatting] = useState(false);
+  const [formatError, setFormatError] = useState<string | null>(null);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+  const findInputRef = useRef<HTMLInputElement>(null);
+
+  const isDirty = draft !== html;
+  const matches = useMemo(() => showFind ? findMatches(draft, query, matchCase) : [], [showFind, draft, query, matchCase]);
+  const current = matches.length ? Math.min(matchIndex, matches.length - 1) : -1;
+
+  useEffect(() => {
+    if (showFind) findInputRef.current?.select();
+  }, [showFind]);
+
+  // Keep the current match roughly centred in the editor. Runs on navigation only,
+  // so typing elsewhere in the document does not yank the view back.
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || current < 0) return;
+    const line = draft.slice(0, matches[current]).split('\n').length - 1;
+    editor.scrollTop = Math.max(0, line * LINE_HEIGHT - editor.clientHeight / 2);
+  }, [current, query, matchCase, showFind]);
+
+  const goToMatch = (step: number) => {
+    if (!matches.length) return;
+    setMatchIndex((current + step + matches.length) % matches.length);
+  };
+
+  const handleReplace = () => {
+    if (current < 0) return;
+    const start = matches[current];
+    onDraftChange(draft.slice(0, start) + replacement + draft.slice(start + query.length));
+  };
+
+  const handleReplaceAll = () => {
+    if (!matches.length) return;
+    let result = '';
+    let last = 0;
+    for (const start of matches) {
+      result += draft.slice(last, start) + replacement;
+      last = start + query.length;
+    }
+    onDraftChange(result + draft.slice(last));
+  };
+
+  const handleFormat = async () => {
+    setIsFormatting(true);
+    setFormatError(null);
+    try {
+      onDraftChange(await formatHtml(draft));
+    } catch (error) {
+      console.error("Error formatting code:", error);
+      setFormatError(error instanceof Error && !/dynamically imported module/i.test(error.message)
+        ? `格式化失败：${error.message.split('\n')[0]}`
+        : "无法加载格式化工具，请检查网络连接。");
+    } finally {
+      setIsFormatting(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const mod = e.ctrlKey || e.metaKey;
+    if (mod && e.key.toLowerCase() === 'f') {
+      e.preventDefault();
+      setShowFind(true);
+      findInputRef.current?.select();
+    } else if (mod && e.key.toLowerCase() === 's') {
+      e.preventDefault();
+      if (canEdit && isDirty) onSave();
+    }
+  };
+
+  const handleFindKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      goToMatch(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      setShowFind(false);
+      editorRef.current?.focus();
+    }
+  };
+
+  const toolButton = 'p-1.5 rounded-md transition-colors text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 disabled:opacity-40 disabled:pointer-events-none';
+
+  return (
+    <div onKeyDown={handleKeyDown} className="w-full md:w-1/2 h-1/2 md:h-full border-b md:border-b-0 md:border-r border-zinc-800 bg-[#0c0c0e] flex flex-col shrink-0">
+      <div className="flex items-center gap-1 px-3 py-2 border-b border-zinc-800">
+        <span className="flex-1 text-[10px] font-mono uppercase tracking-wider text-zinc-500">
+          源代码{isDirty && <span className="ml-2 normal-case text-amber-400">· 未保存</span>}
+        </span>
+        <button onClick={() => setShowFind(!showFind)} title="查找与替换 (Ctrl+F)" className={`${toolButton} ${showFind ? 'bg-zinc-800 text-zinc-100' : ''}`}>
+          <MagnifyingGlassIcon className="w-4 h-4" />
+        </button>
+        <button onClick={handleFormat} disabled={!canEdit || isFormatting} title="格式化代码" className={toolButton}>
+          {isFormatting
+            ? <div className="w-4 h-4 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
+            : <Bars3BottomLeftIcon className="w-4 h-4" />}
+        </button>
+        <button onClick={() => onDraftChange(html)} disabled={!isDirty} title="撤销全部修改" className={toolButton}>
+          <ArrowUturnLeftIcon className="w-4 h-4" />
+        </button>
+        {canEdit && (
+          <button
+            onClick={onSave}
+            disabled={!isDirty}
+            title="保存为新版本 (Ctrl+S)"
+            className="ml-1 px-2.5 py-1 text-[11px] font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+          >
+            保存为新版本
+          </button>
+        )}
+        <button onClick={onClose} title="关闭源代码" className={`${toolButton} ml-1`}>
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      {showFind && (
+        <div className="flex flex-wrap items-center gap-1.5 px-3 py-2 border-b border-zinc-800 bg-[#121214]">
+          <input
+            ref={findInputRef}
+            value={query}
+            onChange={e => { setQuery(e.target.value); setMatchIndex(0); }}
+            onKeyDown={handleFindKeyDown}
+            placeholder="查找"
+            className="w-36 flex-1 min-w-0 rounded bg-zinc-900 border border-zinc-800 px-2 py-1 text-xs font-mono text-zinc-200 placeholder:text-zinc-600 focus:outline-none focus:border-blue-500"
+          />
+          <span className="w-14 text-center text-[10px] font-mono text-zinc-500">
+            {query ? `${current + 1}/${matches.length}` : ''}
+          </span>
+          <button onClick={() => setMatchCase(!matchCase)} title="区分大小写" className={`px-1.5 py-0.5 rounded text-[11px] font-mono border transition-colors ${matchCase ? 'border-blue-500/50 text-blue-400' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'}`}>
+            Aa
+          </button>
+          <button onClick={() => goToMatch(-1)} disabled={!matches.length} title="上一个 (Shift+Enter)" className={toolButton}>
+            <ChevronUpIcon className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => goToMatch(1)} disabled={!matches.length} title="下一个 (Enter)" className={toolButton}>
+            <ChevronDownIcon className="w-3.5 h-3.5" />
+          </button>
+          {canEdit && (
+            <div className="w-full flex items-center gap-1.5">
+              <input
+                value={replacement}
+                onChange={e => setReplacement(e.target.value)}
+                placeholder="替换为"
+                className="flex-1 min-w-0 rounded bg-zinc-900 border border-zinc-800 px-2 py-1 text-xs font-mono text-zinc-200 placeholder:text-zinc-600 focus:outline-none focus:border-blue-500"
+              />
+              <button onClick={handleReplace} disabled={current < 0} className="px-2 py-1 rounded text-[11px] text-zinc-300 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-40 disabled:pointer-events-none transition-colors">
+                替换
+              </button>
+              <button onClick={handleReplaceAll} disabled={!matches.length} className="px-2 py-1 rounded text-[11px] text-zinc-300 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-40 disabled:pointer-events-none transition-colors">
+                全部替换
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {formatError && (
+        <div className="flex items-center justify-between gap-2 px-3 py-1.5 border-b border-zinc-800 bg-red-500/10 text-[11px] text-red-400">
+          <span className="truncate">{formatError}</span>
+          <button onClick={() => setFormatError(null)} className="shrink-0 hover:text-red-300">
+            <XMarkIcon className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
+      <CodeEditor
+        value={draft}
+        onChange={onDraftChange}
+        readOnly={!canEdit}
+        mark={current >= 0 ? { start: matches[current], end: matches[current] + query.length } : undefined}
+        textareaRef={editorRef}
+      />
+    </div>
+  );
+};
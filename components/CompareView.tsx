@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useState } from 'react';
+import { ArrowUturnLeftIcon, CodeBracketIcon, ViewColumnsIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+import { DiffLine, diffLines, getDiffStats } from '../services/diff';
+import { getVersionNumber } from '../services/versions';
+import { getPreviewSandbox, preparePreviewHtml } from '../services/previewSandbox';
+
+interface CompareViewProps {
+  versions: Creation[];
+  // The version shown on the right ("after") side by default
+  current: Creation;
+  onRestore: (version: Creation) => void;
+  // Restoring records a new version, which requires edit permission
+  canRestore: boolean;
+  onClose: () => void;
+}
+
+// Unchanged lines kept around each change; longer unchanged runs are collapsed
+const CONTEXT_LINES = 3;
+
+type DiffRow = DiffLine | { type: 'collapsed'; count: number };
+
+const collapseUnchanged = (diff: DiffLine[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let run: DiffLine[] = [];
+
+  const flush = (isStart: boolean, isEnd: boolean) => {
+    const head = isStart ? 0 : CONTEXT_LINES;
+    const tail = isEnd ? 0 : CONTEXT_LINES;
+    if (run.length > head + tail + 1) {
+      rows.push(...run.slice(0, head));
+      rows.push({ type: 'collapsed', count: run.length - head - tail });
+      rows.push(...run.slice(run.length - tail));
+    } else {
+      rows.push(...run);
+    }
+    run = [];
+  };
+
+  let seenChange = false;
+  for (const line of diff) {
+    if (line.type === 'same') {
+      run.push(line);
+    } else {
+      flush(!seenChange, false);
+      seenChange = true;
+      rows.push(line);
+    }
+  }
+  flush(!seenChange, true);
+  return rows;
+};
+
+const VersionSelect = ({ versions, value, onChange }: { versions: Creation[], value: string, onChange: (id: string) => void }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    className="bg-zinc-900 border border-zinc-700 text-zinc-200 text-xs font-mono rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+  >
+    {versions.map(version => (
+      <option key={version.id} value={version.id}>
+        v{getVersionNumber(version)} · {version.timestamp.toLocaleString('zh-CN')}
+      </option>
+    ))}
+  </select>
+);
+
+export const CompareView: React.FC<CompareViewProps> = ({ versions, current, onRestore, canRestore, onClose }) => {
+  const defaultBase = versions.find(v => v.id === current.parentId)
+    || versions[Math.max(0, versions.findIndex(v => v.id === current.id) - 1)];
+
+  const [baseId, setBaseId] = useState(defaultBase.id);
+  const [targetId, setTargetId] = useState(current.id);
+  const [mode, setMode] = useState<'code' | 'render'>('code');
+
+  const base = versions.find(v => v.id === baseId) || defaultBase;
+  const target = versions.find(v => v.id === targetId) || current;
+
+  const diff = useMemo(() => diffLines(base.html, target.html), [base.html, target.html]);
+  const stats = useMemo(() => getDiffStats(diff), [diff]);
+  const rows = useMemo(() => collapseUnchanged(diff), [diff]);
+
+  return (
+    <div className="absolute inset-0 flex flex-col z-10 bg-[#09090b]">
+      {/* Compare Toolbar */}
+      <div className="flex flex-wrap items-center gap-3 px-4 py-2 border-b border-zinc-800 bg-[#0E0E10] text-xs">
+        <VersionSelect versions={versions} value={base.id} onChange={setBaseId} />
+        <span className="text-zinc-600 font-mono">→</span>
+        <VersionSelect versions={versions} value={target.id} onChange={setTargetId} />
+
+        <span className="font-mono text-[11px]">
+          <span className="text-green-400">+{stats.added}</span>
+          <span className="text-zinc-600 mx-1">/</span>
+          <span className="text-red-400">-{stats.removed}</span>
+        </span>
+
+        <div className="flex items-center gap-1 p-0.5 bg-black border border-zinc-800 rounded-md ml-auto">
+          <button
+            onClick={() => setMode('code')}
+            className={`flex items-center gap-1 px-2 py-1 rounded ${mode === 'code' ? 'bg-zinc-800 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+          >
+            <CodeBracketIcon className="w-3.5 h-3.5" />
+            代码差异
+          </button>
+          <button
+            onClick={() => setMode('render')}
+            className={`flex items-center gap-1 px-2 py-1 rounded ${mode === 'render' ? 'bg-zinc-800 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+          >
+            <ViewColumnsIcon className="w-3.5 h-3.5" />
+            并排预览
+          </button>
+        </div>
+
+        <button
+          onClick={() => onRestore(base)}
+          disabled={!canRestore || base.id === current.id}
+          className="flex items-center gap-1 px-2.5 py-1 rounded-md border border-zinc-700 text-zinc-300 hover:text-white hover:border-blue-500/50 hover:bg-blue-500/10 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+          title="将左侧版本恢复为当前版本（作为新版本保存）"
+        >
+          <ArrowUturnLeftIcon className="w-3.5 h-3.5" />
+          恢复 v{getVersionNumber(base)}
+        </button>
+
+        <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-300" title="退出对比">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      {mode === 'code' ? (
+        <div className="flex-1 overflow-auto font-mono text-[12px] leading-5">
+          {stats.added === 0 && stats.removed === 0 ? (
+            <div className="flex items-center justify-center h-full text-zinc-500 text-sm">两个版本的代码完全相同</div>
+          ) : (
+            <table className="w-full border-collapse">
+              <tbody>
+                {rows.map((row, index) => row.type === 'collapsed' ? (
+                  <tr key={index} className="bg-zinc-900/60 text-zinc-500">
+                    <td colSpan={3} className="px-4 py-1 text-[11px]">⋯ {row.count} 行未改动</td>
+                  </tr>
+                ) : (
+                  <tr
+                    key={index}
+                    className={row.type === 'added' ? 'bg-green-500/10' : row.type === 'removed' ? 'bg-red-500/10' : ''}
+                  >
+                    <td className="w-12 px-2 text-right text-zinc-600 select-none align-top">{row.oldLine ?? ''}</td>
+                    <td className="w-12 px-2 text-right text-zinc-600 select-none align-top border-r border-zinc-800">{row.newLine ?? ''}</td>
+                    <td className={`px-3 whitespace-pre-wrap break-all ${row.type === 'added' ? 'text-green-300' : row.type === 'removed' ? 'text-red-300' : 'text-zinc-400'}`}>
+                      <span className="select-none mr-2 text-zinc-600">{row.type === 'added' ? '+' : row.type === 'removed' ? '-' : ' '}</span>
+                      {row.text}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col md:flex-row overflow-hidden">
+          {[base, target].map((version, index) => (
+            <div key={`${index}-${version.id}`} className={`relative flex-1 bg-white ${index === 0 ? 'border-b md:border-b-0 md:border-r border-zinc-800' : ''}`}>
+              <div className="absolute top-3 left-3 z-10 bg-black/80 backdrop-blur text-zinc-300 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-800">
+                v{getVersionNumber(version)}
+              </div>
+              <iframe
+                title={`版本 v${getVersionNumber(version)}`}
+                srcDoc={preparePreviewHtml(version.html, { allowNetwork: version.allowNetwork })}
+                className="w-full h-full"
+                sandbox={getPreviewSandbox(!!version.allowNetwork)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
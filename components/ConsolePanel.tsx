@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronUpIcon, CommandLineIcon, NoSymbolIcon, WrenchScrewdriverIcon } from '@heroicons/react/24/outline';
+import { ConsoleEntry, ConsoleLevel } from '../services/previewBridge';
+
+interface ConsolePanelProps {
+  entries: ConsoleEntry[];
+  onClear: () => void;
+  onFixErrors: (errors: string[]) => void;
+  // Fixing goes through an AI update, which requires edit permission
+  canFix: boolean;
+}
+
+const LEVEL_STYLES: Record<ConsoleLevel, string> = {
+  log: 'text-zinc-300',
+  info: 'text-blue-300',
+  debug: 'text-zinc-500',
+  warn: 'text-amber-300 bg-amber-500/5',
+  error: 'text-red-300 bg-red-500/5',
+};
+
+// Collapsible console for the preview iframe, fed by the injected bridge script.
+export const ConsolePanel: React.FC<ConsolePanelProps> = ({ entries, onClear, onFixErrors, canFix }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const errors = entries.filter(entry => entry.level === 'error');
+  const warningCount = entries.filter(entry => entry.level === 'warn').length;
+
+  // Pop open the first time the running app throws
+  useEffect(() => {
+    if (errors.some(entry => entry.uncaught)) setIsOpen(true);
+  }, [errors.length]);
+
+  useEffect(() => {
+    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [entries.length, isOpen]);
+
+  return (
+    <div className="shrink-0 bg-[#0c0c0e] border-t border-zinc-800 text-xs font-mono">
+      <div className="flex items-center gap-3 px-3 py-1.5">
+        <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-2 text-zinc-400 hover:text-zinc-200">
+          <CommandLineIcon className="w-3.5 h-3.5" />
+          <span className="uppercase tracking-wider text-[10px]">控制台</span>
+          <ChevronUpIcon className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+
+        {errors.length > 0 && <span className="px-1.5 rounded bg-red-500/15 text-red-400 text-[10px]">{errors.length} 错误</span>}
+        {warningCount > 0 && <span className="px-1.5 rounded bg-amber-500/15 text-amber-400 text-[10px]">{warningCount} 警告</span>}
+
+        <div className="ml-auto flex items-center gap-2">
+          {errors.length > 0 && (
+            <button
+              onClick={() => onFixErrors(errors.map(entry => entry.message))}
+              disabled={!canFix}
+              title={canFix ? "让 AI 根据这些错误修复程序" : "需要编辑权限"}
+              className="flex items-center gap-1 px-2 py-0.5 rounded bg-blue-600 hover:bg-blue-500 text-white text-[11px] font-sans font-medium disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              <WrenchScrewdriverIcon className="w-3 h-3" />
+              修复这些错误
+            </button>
+          )}
+          {entries.length > 0 && (
+            <button onClick={onClear} className="p-1 text-zinc-500 hover:text-zinc-300" title="清空控制台">
+              <NoSymbolIcon className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isOpen && (
+        <div ref={listRef} className="max-h-48 overflow-y-auto border-t border-zinc-800">
+          {entries.length === 0 ? (
+            <p className="px-3 py-3 text-zinc-600">暂无输出</p>
+          ) : entries.map(entry => (
+            <div key={entry.id} className={`flex gap-3 px-3 py-1 border-b border-zinc-900 ${LEVEL_STYLES[entry.level]}`}>
+              <span className="text-zinc-600 shrink-0">{new Date(entry.timestamp).toLocaleTimeString('zh-CN')}</span>
+              <span className="whitespace-pre-wrap break-all">{entry.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -4,45 +4,109 @@
 */
 import React from 'react';
 import { ClockIcon, ArrowRightIcon, DocumentIcon, PhotoIcon, TrashIcon, CodeBracketIcon } from '@heroicons/react/24/outline';
+import { StorageUsage, RETENTION_LIMIT_OPTIONS, formatBytes } from '../services/historyStore';
+import { groupByRoot } from '../services/versions';
+import { getSourceInputs, isImageInput } from '../services/sourceInputs';
+import { Sketch } from '../services/sketch';
+
+export interface ChatTurn {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  // The version this turn produced: model replies, restores and manual code edits
+  versionId?: string;
+  timestamp: Date;
+}
+
+export interface SourceInput {
+  name: string;
+  dataUrl: string; // Base64 data URL
+  // PDFs only: the 1-based pages chosen at upload; all pages when omitted
+  pages?: number[];
+  // Drawn inputs: the editable vector source the image was rendered from
+  sketch?: Sketch;
+}
 
 export interface Creation {
   id: string;
   name: string;
   html: string;
+  // Single source file saved by older versions; read both through getSourceInputs
   originalImage?: string; // Base64 data URL
+  // Source files in the order they were sent to the model
+  sourceInputs?: SourceInput[];
   timestamp: Date;
+  // Version lineage: every edit is a new Creation pointing at the one it was made from
+  parentId?: string;
+  rootId?: string;
+  version?: number;
+  // Edit conversation leading up to this version (copied forward on each edit)
+  conversation?: ChatTurn[];
+  // Relaxes the preview's Content-Security-Policy to allow network access
+  allowNetwork?: boolean;
 }
 
 interface CreationHistoryProps {
   history: Creation[];
   onSelect: (creation: Creation) => void;
-  onDelete: (id: string) => void;
+  // Receives the root id; deletes every version of that artifact
+  onDelete: (rootId: string) => void;
+  canDelete?: boolean;
+  storageUsage?: StorageUsage | null;
+  onChangeRetentionLimit?: (bytes: number) => void;
 }
 
-export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSelect, onDelete }) => {
+export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSelect, onDelete, canDelete = true, storageUsage, onChangeRetentionLimit }) => {
   if (history.length === 0) return null;
 
+  const groups = groupByRoot(history);
+
   return (
     <div className="w-full animate-in fade-in slide-in-from-bottom-8 duration-700">
       <div className="flex items-center justify-between mb-3 px-2">
         <div className="flex items-center space-x-3">
             <ClockIcon className="w-4 h-4 text-zinc-500" />
             <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-500">
-                历史记录 <span className="text-zinc-700 font-normal ml-1">({history.length}/30)</span>
+                历史记录 <span className="text-zinc-700 font-normal ml-1">({groups.length})</span>
             </h2>
         </div>
-        <div className="h-px flex-1 bg-zinc-800 ml-4"></div>
+        <div className="h-px flex-1 bg-zinc-800 mx-4"></div>
+        {storageUsage && (
+            <div
+                className="flex items-center gap-2 text-[10px] font-mono text-zinc-600"
+                title="超出存储上限时，将自动移除最旧的作品"
+            >
+                <div className="w-16 h-1 bg-zinc-800 rounded-full overflow-hidden">
+                    <div
+                        className={`h-full ${storageUsage.usedBytes > storageUsage.limitBytes * 0.9 ? 'bg-amber-500' : 'bg-blue-500/60'}`}
+                        style={{ width: `${Math.min(100, (storageUsage.usedBytes / storageUsage.limitBytes) * 100)}%` }}
+                    ></div>
+                </div>
+                <span>{formatBytes(storageUsage.usedBytes)} /</span>
+                <select
+                    value={storageUsage.limitBytes}
+                    onChange={(e) => onChangeRetentionLimit?.(Number(e.target.value))}
+                    className="bg-transparent text-zinc-500 hover:text-zinc-300 focus:outline-none cursor-pointer"
+                >
+                    {RETENTION_LIMIT_OPTIONS.map(bytes => (
+                        <option key={bytes} value={bytes} className="bg-zinc-900">{formatBytes(bytes)}</option>
+                    ))}
+                </select>
+            </div>
+        )}
       </div>
       
       {/* Horizontal Scroll Container for Compact Layout */}
       <div className="flex overflow-x-auto space-x-4 pb-4 px-2 scrollbar-hide">
-        {history.map((item) => {
-          const isPdf = item.originalImage?.startsWith('data:application/pdf');
-          const hasImage = !!item.originalImage && !isPdf;
+        {groups.map(({ rootId, latest: item, count }) => {
+          const inputs = getSourceInputs(item);
+          const hasImage = !!inputs[0] && isImageInput(inputs[0]);
+          // PDFs, data files and documents share the document icon
+          const isDocument = !!inputs[0] && !hasImage;
           
           return (
             <div
-              key={item.id}
+              key={rootId}
               className="group flex-shrink-0 relative flex flex-col w-48 h-32 bg-zinc-900 border border-zinc-800 hover:border-blue-500/50 rounded-xl transition-all duration-300 overflow-hidden shadow-lg hover:shadow-blue-900/10 cursor-pointer"
               onClick={() => onSelect(item)}
             >
@@ -50,7 +114,7 @@ export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSel
               {hasImage ? (
                   <div className="absolute inset-0">
                       <img 
-                          src={item.originalImage} 
+                          src={inputs[0].dataUrl} 
                           alt="thumbnail" 
                           className="w-full h-full object-cover opacity-50 group-hover:opacity-30 group-hover:scale-105 transition-all duration-500" 
                       />
@@ -61,38 +125,49 @@ export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSel
                       {/* Code Pattern Background for non-image items */}
                       <div className="absolute inset-0 opacity-10 bg-[radial-gradient(#ffffff_1px,transparent_1px)] [background-size:8px_8px]"></div>
                       <div className="absolute inset-0 flex items-center justify-center opacity-10">
-                          {isPdf ? <DocumentIcon className="w-16 h-16" /> : <CodeBracketIcon className="w-16 h-16" />}
+                          {isDocument ? <DocumentIcon className="w-16 h-16" /> : <CodeBracketIcon className="w-16 h-16" />}
                       </div>
                       <div className="absolute inset-0 bg-gradient-to-t from-zinc-950 via-zinc-950/50 to-transparent"></div>
                   </div>
               )}
 
               {/* Delete Button (Top Right) */}
-              <button
-                onClick={(e) => {
-                    e.stopPropagation(); // Critical: Prevent selecting the card
-                    if(window.confirm(`确定要删除 "${item.name}" 吗？此操作无法撤销。`)) {
-                        onDelete(item.id);
-                    }
-                }}
-                className="absolute top-2 right-2 p-2 rounded-full bg-black/60 hover:bg-red-500 text-zinc-400 hover:text-white opacity-0 group-hover:opacity-100 transition-all duration-200 backdrop-blur-md border border-white/10 z-50 hover:scale-110 shadow-lg"
-                title="删除此项目"
-              >
-                <TrashIcon className="w-4 h-4" />
-              </button>
+              {canDelete && (
+                <button
+                  onClick={(e) => {
+                      e.stopPropagation(); // Critical: Prevent selecting the card
+                      const message = count > 1
+                          ? `确定要删除 "${item.name}" 及其全部 ${count} 个版本吗？此操作无法撤销。`
+                          : `确定要删除 "${item.name}" 吗？此操作无法撤销。`;
+                      if(window.confirm(message)) {
+                          onDelete(rootId);
+                      }
+                  }}
+                  className="absolute top-2 right-2 p-2 rounded-full bg-black/60 hover:bg-red-500 text-zinc-400 hover:text-white opacity-0 group-hover:opacity-100 transition-all duration-200 backdrop-blur-md border border-white/10 z-50 hover:scale-110 shadow-lg"
+                  title="删除此项目"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              )}
 
               {/* Content Overlay */}
               <div className="relative z-10 flex flex-col h-full p-4 pointer-events-none">
                 <div className="flex items-start justify-between">
-                  <div className={`p-1 rounded-md border backdrop-blur-md ${hasImage ? 'bg-black/30 border-white/10 text-white' : 'bg-zinc-800 border-zinc-700 text-zinc-400'}`}>
-                      {isPdf ? (
+                  <div className={`flex items-center gap-1 p-1 rounded-md border backdrop-blur-md ${hasImage ? 'bg-black/30 border-white/10 text-white' : 'bg-zinc-800 border-zinc-700 text-zinc-400'}`}>
+                      {isDocument ? (
                           <DocumentIcon className="w-3.5 h-3.5" />
                       ) : hasImage ? (
                           <PhotoIcon className="w-3.5 h-3.5" />
                       ) : (
                           <CodeBracketIcon className="w-3.5 h-3.5" />
                       )}
+                      {inputs.length > 1 && <span className="text-[10px] font-mono leading-none pr-0.5">{inputs.length}</span>}
                   </div>
+                  {count > 1 && (
+                      <span className="ml-2 mr-auto px-1.5 py-0.5 rounded-md bg-blue-500/10 border border-blue-500/20 text-[10px] font-mono text-blue-400 backdrop-blur-md">
+                          {count} 个版本
+                      </span>
+                  )}
                 </div>
                 
                 <div className="mt-auto space-y-1">
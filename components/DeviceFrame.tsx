@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { DevicePreset, VIEWPORT_LABELS, ViewportSize } from '../services/viewports';
+
+interface DeviceFrameProps {
+  preset: DevicePreset;
+  // CSS pixel size the page is laid out at
+  size: ViewportSize;
+  fitToPanel: boolean;
+  // The preview iframe; it is stretched to fill the screen area
+  children: React.ReactNode;
+}
+
+// Bezel thickness around the screen; desktop and custom sizes get a window title bar instead
+const BEZEL: Record<DevicePreset, number> = { phone: 12, tablet: 16, desktop: 0, custom: 0 };
+const TITLE_BAR_HEIGHT = 24;
+
+// Lays the page out at the device's real size, then scales the whole frame down
+// when it has to fit the available space.
+export const DeviceFrame: React.FC<DeviceFrameProps> = ({ preset, size, fitToPanel, children }) => {
+  const slotRef = useRef<HTMLDivElement>(null);
+  const [available, setAvailable] = useState<ViewportSize | null>(null);
+
+  useEffect(() => {
+    const slot = slotRef.current;
+    if (!slot) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setAvailable({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(slot);
+    return () => observer.disconnect();
+  }, []);
+
+  const bezel = BEZEL[preset];
+  const hasTitleBar = bezel === 0;
+  const outer = {
+    width: size.width + bezel * 2,
+    height: size.height + bezel * 2 + (hasTitleBar ? TITLE_BAR_HEIGHT : 0),
+  };
+  const scale = fitToPanel && available
+    ? Math.min(1, available.width / outer.width, available.height / outer.height)
+    : 1;
+
+  return (
+    // Side by side, wider devices get proportionally more room
+    <div style={{ flex: `${outer.width} 1 0` }} className="min-w-0 h-full flex flex-col">
+      <div ref={slotRef} className={`flex-1 min-h-0 flex p-4 ${fitToPanel ? 'overflow-hidden' : 'overflow-auto'}`}>
+        <div style={{ width: outer.width * scale, height: outer.height * scale }} className="shrink-0 m-auto">
+          <div
+            style={{ width: outer.width, height: outer.height, padding: bezel, transform: `scale(${scale})`, transformOrigin: 'top left' }}
+            className={`flex flex-col bg-zinc-800 shadow-2xl ${hasTitleBar ? 'rounded-lg ring-1 ring-zinc-700' : preset === 'phone' ? 'rounded-[2.5rem]' : 'rounded-[1.75rem]'}`}
+          >
+            {hasTitleBar && (
+              <div style={{ height: TITLE_BAR_HEIGHT }} className="shrink-0 flex items-center gap-1.5 px-3">
+                <div className="w-2 h-2 rounded-full bg-zinc-600"></div>
+                <div className="w-2 h-2 rounded-full bg-zinc-600"></div>
+                <div className="w-2 h-2 rounded-full bg-zinc-600"></div>
+              </div>
+            )}
+            <div
+              style={{ width: size.width, height: size.height }}
+              className={`shrink-0 flex bg-white overflow-hidden ${hasTitleBar ? 'rounded-b-lg' : preset === 'phone' ? 'rounded-[1.75rem]' : 'rounded-xl'}`}
+            >
+              {children}
+            </div>
+          </div>
+        </div>
+      </div>
+      <p className="shrink-0 pb-2 text-center text-[10px] font-mono text-zinc-500">
+        {VIEWPORT_LABELS[preset]} · {size.width}×{size.height}{scale < 1 && ` · ${Math.round(scale * 100)}%`}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { DocumentIcon } from '@heroicons/react/24/outline';
+import { DOCUMENT_KIND_LABELS, ParsedDocument, parseDocument } from '../services/documents';
+import { SourceInput } from './CreationHistory';
+
+interface DocumentPreviewProps {
+  input: SourceInput;
+}
+
+// Enough to get a feel for the data without rendering a huge DOM
+const PREVIEW_ROWS = 200;
+const PREVIEW_CHARS = 20000;
+
+const clip = (text: string) => text.length > PREVIEW_CHARS ? `${text.slice(0, PREVIEW_CHARS)}\n…` : text;
+
+// Shows a parsed data file or document next to the generated app: sheets as tables,
+// JSON and text as-is, Word documents as their converted HTML.
+export const DocumentPreview: React.FC<DocumentPreviewProps> = ({ input }) => {
+  const [parsed, setParsed] = useState<ParsedDocument | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sheetIndex, setSheetIndex] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setParsed(null);
+    setError(null);
+    setSheetIndex(0);
+    parseDocument(input.name, input.dataUrl)
+      .then(result => { if (!cancelled) setParsed(result); })
+      .catch(err => {
+        console.error("Error parsing document:", err);
+        if (!cancelled) setError("无法预览此文件。");
+      });
+    return () => { cancelled = true; };
+  }, [input.dataUrl]);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-zinc-500 p-6 text-center">
+        <DocumentIcon className="w-12 h-12 mb-3 opacity-50 text-red-400" />
+        <p className="text-sm mb-2 text-red-400/80">{error}</p>
+      </div>
+    );
+  }
+
+  if (!parsed) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const header = (
+    <div className="shrink-0 flex items-center gap-2 mb-3 text-xs font-mono text-zinc-500">
+      <DocumentIcon className="w-4 h-4" />
+      <span className="truncate text-zinc-300">{input.name}</span>
+      <span className="px-1.5 py-0.5 rounded bg-zinc-800 border border-zinc-700">{DOCUMENT_KIND_LABELS[parsed.kind]}</span>
+    </div>
+  );
+
+  if ('tables' in parsed) {
+    const table = parsed.tables[Math.min(sheetIndex, parsed.tables.length - 1)];
+    return (
+      <div className="w-full h-full flex flex-col">
+        {header}
+        {parsed.tables.length > 1 && (
+          <div className="shrink-0 flex gap-1 mb-2 overflow-x-auto">
+            {parsed.tables.map((sheet, i) => (
+              <button
+                key={sheet.name + i}
+                onClick={() => setSheetIndex(i)}
+                className={`shrink-0 px-2 py-1 rounded text-[11px] font-mono transition-colors ${sheet === table ? 'bg-blue-600 text-white' : 'bg-zinc-900 text-zinc-400 hover:text-white'}`}
+              >
+                {sheet.name}
+              </button>
+            ))}
+          </div>
+        )}
+        {table ? (
+          <>
+            <div className="flex-1 min-h-0 overflow-auto rounded border border-zinc-800">
+              <table className="min-w-full text-[11px] font-mono text-zinc-300">
+                <thead className="sticky top-0 bg-zinc-900">
+                  <tr>
+                    {table.columns.map((column, i) => (
+                      <th key={i} className="px-2 py-1.5 text-left font-semibold text-zinc-200 border-b border-zinc-800 whitespace-nowrap">{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                    <tr key={i} className="odd:bg-zinc-900/40">
+                      {row.map((cell, j) => <td key={j} className="px-2 py-1 border-b border-zinc-800/50 whitespace-nowrap">{cell}</td>)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="shrink-0 pt-2 text-[10px] font-mono text-zinc-600">
+              {table.rows.length} 行 × {table.columns.length} 列{table.rows.length > PREVIEW_ROWS && `，仅显示前 ${PREVIEW_ROWS} 行`}
+            </p>
+          </>
+        ) : (
+          <p className="text-sm text-zinc-500 text-center py-12">表格为空。</p>
+        )}
+      </div>
+    );
+  }
+
+  if (parsed.kind === 'docx') {
+    return (
+      <div className="w-full h-full flex flex-col">
+        {header}
+        {/* Converted from an untrusted file, so shown in a sandbox with scripts disabled */}
+        <iframe
+          title={input.name}
+          sandbox=""
+          srcDoc={`<style>body{font-family:sans-serif;line-height:1.6;padding:16px;color:#18181b}table{border-collapse:collapse}td,th{border:1px solid #d4d4d8;padding:4px 8px}img{max-width:100%}</style>${parsed.html}`}
+          className="flex-1 min-h-0 w-full rounded bg-white"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      {header}
+      <pre className="flex-1 min-h-0 overflow-auto rounded border border-zinc-800 bg-zinc-950 p-4 text-[11px] leading-relaxed font-mono text-zinc-300 whitespace-pre-wrap break-words">
+        {clip(parsed.kind === 'json' ? JSON.stringify(parsed.value, null, 2) : parsed.text)}
+      </pre>
+    </div>
+  );
+};
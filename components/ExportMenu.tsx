@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+import { EXPORT_FORMAT_LABELS, ExportFormat, exportCreation } from '../services/exporters';
+
+interface ExportMenuProps {
+  creation: Creation;
+  // Model-assisted conversion; runs in the background and downloads when done
+  onConvertToReact: () => void;
+  isConvertingToReact: boolean;
+}
+
+// Header dropdown listing the download formats for the active creation.
+export const ExportMenu: React.FC<ExportMenuProps> = ({ creation, onConvertToReact, isConvertingToReact }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleExport = (format: ExportFormat) => {
+    setIsOpen(false);
+    exportCreation(creation, format);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title={isConvertingToReact ? "正在转换为 React..." : "导出"}
+        className={`relative p-1.5 rounded-md transition-colors ${isOpen ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+      >
+        <ArrowDownTrayIcon className="w-4 h-4" />
+        {isConvertingToReact && <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-blue-500 animate-pulse" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-56 z-50 bg-[#121214] border border-zinc-800 rounded-lg shadow-2xl py-1 animate-in fade-in zoom-in-95 duration-150">
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full px-3 py-2 text-left hover:bg-zinc-800/60 transition-colors"
+            >
+              <span className="block text-xs text-zinc-200">{EXPORT_FORMAT_LABELS[format].label}</span>
+              <span className="block text-[10px] text-zinc-500">{EXPORT_FORMAT_LABELS[format].description}</span>
+            </button>
+          ))}
+          <div className="border-t border-zinc-800 mt-1 pt-1">
+            <button
+              onClick={() => {
+                setIsOpen(false);
+                onConvertToReact();
+              }}
+              disabled={isConvertingToReact}
+              className="w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-zinc-800/60 transition-colors disabled:opacity-60 disabled:pointer-events-none"
+            >
+              <span className="flex-1 min-w-0">
+                <span className="block text-xs text-zinc-200">React 组件 (TSX)</span>
+                <span className="block text-[10px] text-zinc-500">{isConvertingToReact ? '正在由模型转换并校验...' : '由模型拆分为组件，需要一些时间'}</span>
+              </span>
+              {isConvertingToReact && <div className="w-3.5 h-3.5 shrink-0 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ScissorsIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { CropRect } from '../services/imageProcessing';
+
+interface ImageCropperProps {
+  file: File;
+  crop?: CropRect;
+  // Receives undefined when the whole image is kept
+  onConfirm: (crop: CropRect | undefined) => void;
+  onClose: () => void;
+}
+
+type DragMode = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface DragState {
+  mode: DragMode;
+  startX: number;
+  startY: number;
+  startRect: CropRect;
+}
+
+const FULL_RECT: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+// Smallest crop edge, as a fraction of the image, so the handles never overlap
+const MIN_SIZE = 0.05;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Applies a pointer movement (in image fractions) to the rect according to what is being dragged
+const applyDrag = ({ mode, startRect: r }: DragState, dx: number, dy: number): CropRect => {
+  if (mode === 'move') {
+    return {
+      ...r,
+      x: clamp(r.x + dx, 0, 1 - r.width),
+      y: clamp(r.y + dy, 0, 1 - r.height),
+    };
+  }
+  let left = r.x, top = r.y, right = r.x + r.width, bottom = r.y + r.height;
+  if (mode === 'nw' || mode === 'sw') left = clamp(left + dx, 0, right - MIN_SIZE);
+  if (mode === 'ne' || mode === 'se') right = clamp(right + dx, left + MIN_SIZE, 1);
+  if (mode === 'nw' || mode === 'ne') top = clamp(top + dy, 0, bottom - MIN_SIZE);
+  if (mode === 'sw' || mode === 'se') bottom = clamp(bottom + dy, top + MIN_SIZE, 1);
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const HANDLE_POSITIONS: Record<Exclude<DragMode, 'move'>, string> = {
+  nw: '-top-1.5 -left-1.5 cursor-nwse-resize',
+  ne: '-top-1.5 -right-1.5 cursor-nesw-resize',
+  sw: '-bottom-1.5 -left-1.5 cursor-nesw-resize',
+  se: '-bottom-1.5 -right-1.5 cursor-nwse-resize',
+};
+
+// Lets the user keep only part of an uploaded image before it is sent.
+export const ImageCropper: React.FC<ImageCropperProps> = ({ file, crop, onConfirm, onClose }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [rect, setRect] = useState<CropRect>(crop || FULL_RECT);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setSrc(url);
+    setLoadFailed(false);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const startDrag = (mode: DragMode) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    frameRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, startRect: rect };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const bounds = frameRef.current?.getBoundingClientRect();
+    if (!drag || !bounds) return;
+    setRect(applyDrag(drag, (e.clientX - drag.startX) / bounds.width, (e.clientY - drag.startY) / bounds.height));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const isFullImage = rect.width > 0.999 && rect.height > 0.999;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-3xl max-h-[85vh] flex flex-col bg-[#121214] border border-zinc-800 rounded-xl shadow-2xl p-6 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-300">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+
+        <div className="flex items-center gap-3 mb-4 pr-8">
+          <ScissorsIcon className="w-5 h-5 text-blue-500 shrink-0" />
+          <div className="min-w-0">
+            <h2 className="text-base font-bold text-white truncate">{file.name}</h2>
+            <p className="text-zinc-500 text-xs">拖动选框或四角调整裁剪区域，只有框内部分会发送给模型。</p>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 flex items-center justify-center">
+          {loadFailed ? (
+            <p className="text-red-400 text-sm text-center py-12">当前浏览器无法预览此图片，无法裁剪。</p>
+          ) : src && (
+            <div
+              ref={frameRef}
+              className="relative overflow-hidden select-none touch-none"
+              onPointerMove={handlePointerMove}
+              onPointerUp={endDrag}
+              onPointerCancel={endDrag}
+            >
+              <img src={src} alt={file.name} onError={() => setLoadFailed(true)} draggable={false} className="block max-w-full max-h-[60vh]" />
+              <div
+                onPointerDown={startDrag('move')}
+                className="absolute border-2 border-blue-500 cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.6)]"
+                style={{
+                  left: `${rect.x * 100}%`,
+                  top: `${rect.y * 100}%`,
+                  width: `${rect.width * 100}%`,
+                  height: `${rect.height * 100}%`,
+                }}
+              >
+                {(Object.keys(HANDLE_POSITIONS) as Exclude<DragMode, 'move'>[]).map(mode => (
+                  <span
+                    key={mode}
+                    onPointerDown={startDrag(mode)}
+                    className={`absolute w-3 h-3 rounded-sm bg-blue-500 border border-white ${HANDLE_POSITIONS[mode]}`}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 pt-4 mt-4 border-t border-zinc-800 text-xs">
+          <button onClick={() => setRect(FULL_RECT)} className="text-zinc-400 hover:text-white">重置</button>
+          <span className="ml-auto font-mono text-zinc-500">
+            {isFullImage ? '整张图片' : `${Math.round(rect.width * 100)}% × ${Math.round(rect.height * 100)}%`}
+          </span>
+          <button
+            onClick={() => onConfirm(isFullImage ? undefined : rect)}
+            disabled={loadFailed}
+            className="bg-blue-600 hover:bg-blue-500 text-white font-medium px-4 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            确定
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
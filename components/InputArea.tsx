@@ -3,12 +3,33 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useCallback, useState, useEffect } from 'react';
-import { ArrowUpTrayIcon, SparklesIcon, CpuChipIcon } from '@heroicons/react/24/outline';
+import { createPortal } from 'react-dom';
+import { ArrowUpTrayIcon, SparklesIcon, CpuChipIcon, CameraIcon, DocumentIcon, PencilSquareIcon, ScissorsIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { PendingInput } from '../services/sourceInputs';
+import {
+  CropRect,
+  ImageProcessingSettings,
+  MAX_DIMENSION_OPTIONS,
+  OUTPUT_FORMAT_LABELS,
+  OutputFormat,
+  canPreprocess,
+  isHeicFile,
+  loadImageProcessingSettings,
+  saveImageProcessingSettings,
+} from '../services/imageProcessing';
+import { DOCUMENT_ACCEPT, isDocumentFile } from '../services/documents';
+import { PdfPagePicker } from './PdfPagePicker';
+import { ImageCropper } from './ImageCropper';
+import { SketchEditor } from './SketchEditor';
+import { CameraCapture, isCameraSupported } from './CameraCapture';
+import { Sketch, sketchToFile } from '../services/sketch';
+import { StatusNotice } from './StatusToast';
 
 interface InputAreaProps {
-  onGenerate: (prompt: string, file?: File) => void;
+  onGenerate: (prompt: string, inputs?: PendingInput[]) => void;
   isGenerating: boolean;
   disabled?: boolean;
+  onNotice: (notice: Omit<StatusNotice, 'id'>) => void;
 }
 
 const CyclingText = () => {
@@ -41,29 +62,230 @@ const CyclingText = () => {
     );
 };
 
-export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating, disabled = false }) => {
+interface StagedFile extends PendingInput {
+  id: string;
+}
+
+const isSupportedFile = (file: File) =>
+  file.type.startsWith('image/') || file.type === 'application/pdf' || isHeicFile(file) || isDocumentFile(file);
+
+// Screenshots come off the clipboard as a generic "image.png"; give each its own name
+const namePastedFile = (file: File, index: number) => {
+  if (!file.type.startsWith('image/') || !/^image\.\w+$/.test(file.name)) return file;
+  const stamp = new Date().toTimeString().slice(0, 8).replace(/:/g, '');
+  const extension = file.type.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+  return new File([file], `粘贴-${stamp}${index ? `-${index + 1}` : ''}.${extension}`, { type: file.type });
+};
+
+const TrayItem = ({ item, index, onRemove, onPickPages, onCrop, onEditSketch, onDragStart, onDrop }: {
+  item: StagedFile,
+  index: number,
+  onRemove: () => void,
+  onPickPages: () => void,
+  onCrop: () => void,
+  onEditSketch: () => void,
+  onDragStart: () => void,
+  onDrop: () => void,
+}) => {
+    const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!item.file.type.startsWith('image/')) return;
+        const url = URL.createObjectURL(item.file);
+        setThumbnailUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [item.file]);
+
+    return (
+        <div
+            draggable
+            onDragStart={onDragStart}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+                e.preventDefault();
+                onDrop();
+            }}
+            className="group/item relative shrink-0 w-20 h-20 rounded-lg border border-zinc-700 bg-zinc-900 overflow-hidden cursor-grab active:cursor-grabbing"
+            title={item.file.name}
+        >
+            {/* Formats the browser can't display (HEIC outside Safari) fall back to the file icon */}
+            {thumbnailUrl ? (
+                <img src={thumbnailUrl} alt={item.file.name} onError={() => setThumbnailUrl(null)} className="w-full h-full object-cover" />
+            ) : (
+                <div className="w-full h-full flex flex-col items-center justify-center gap-1 text-zinc-500 px-1">
+                    <DocumentIcon className="w-6 h-6" />
+                    <span className="text-[9px] font-mono truncate max-w-full">{item.file.name}</span>
+                </div>
+            )}
+            <span className="absolute bottom-1 left-1 px-1 rounded bg-black/70 text-[9px] font-mono text-zinc-300">{index + 1}</span>
+            {item.file.type === 'application/pdf' && (
+                <button
+                    type="button"
+                    onClick={onPickPages}
+                    className="absolute top-1 left-1 px-1 rounded bg-blue-600/90 hover:bg-blue-500 text-[9px] font-mono text-white"
+                    title="选择页面"
+                >
+                    {item.pages ? `${item.pages.length} 页` : '全部页'}
+                </button>
+            )}
+            {canPreprocess(item.file) && (
+                <button
+                    type="button"
+                    onClick={onCrop}
+                    className={`absolute top-1 left-1 p-0.5 rounded text-white transition-opacity ${item.crop ? 'bg-blue-600/90 hover:bg-blue-500' : 'bg-black/70 hover:bg-zinc-700 opacity-0 group-hover/item:opacity-100'}`}
+                    title={item.crop ? "调整裁剪" : "裁剪图片"}
+                >
+                    <ScissorsIcon className="w-3 h-3" />
+                </button>
+            )}
+            {item.sketch && (
+                <button
+                    type="button"
+                    onClick={onEditSketch}
+                    className="absolute bottom-1 right-1 p-0.5 rounded bg-black/70 text-zinc-300 hover:text-white hover:bg-blue-600"
+                    title="编辑草图"
+                >
+                    <PencilSquareIcon className="w-3 h-3" />
+                </button>
+            )}
+            <button
+                type="button"
+                onClick={onRemove}
+                className="absolute top-1 right-1 p-0.5 rounded-full bg-black/70 text-zinc-400 hover:text-white hover:bg-red-500 opacity-0 group-hover/item:opacity-100 transition-opacity"
+                title="移除文件"
+            >
+                <XMarkIcon className="w-3 h-3" />
+            </button>
+        </div>
+    );
+};
+
+export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating, disabled = false, onNotice }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [prompt, setPrompt] = useState("");
+  // Uploaded files wait here, in send order, so they can be arranged and an instruction added
+  const [files, setFiles] = useState<StagedFile[]>([]);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  // The staged PDF whose page selection is being edited
+  const [pagePickerId, setPagePickerId] = useState<string | null>(null);
+  const pagePickerItem = files.find(item => item.id === pagePickerId);
+  // The staged image whose crop is being edited
+  const [cropperId, setCropperId] = useState<string | null>(null);
+  const cropperItem = files.find(item => item.id === cropperId);
+  // 'new' while drawing a fresh sketch, otherwise the id of the staged sketch being edited
+  const [sketchTarget, setSketchTarget] = useState<string | null>(null);
+  const sketchItem = files.find(item => item.id === sketchTarget);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const hasOpenDialog = !!pagePickerId || !!cropperId || !!sketchTarget || isCameraOpen;
+  const [imageSettings, setImageSettings] = useState<ImageProcessingSettings>(loadImageProcessingSettings);
+  const hasImages = files.some(item => canPreprocess(item.file));
 
-  const handleFile = (file: File) => {
-    if (file.type.startsWith('image/') || file.type === 'application/pdf') {
-      onGenerate("", file);
-    } else {
-      alert("请上传图片或 PDF 文件。");
+  const handleFiles = (incoming: File[]) => {
+    const supported = incoming.filter(isSupportedFile);
+    if (supported.length < incoming.length) {
+      alert("请上传图片、PDF、表格 (CSV/XLSX/JSON) 或文档 (Markdown/TXT/DOCX) 文件。");
     }
+    setFiles(prev => [...prev, ...supported.map(file => ({ id: crypto.randomUUID(), file }))]);
+  };
+
+  // Paste images or copied files anywhere on the landing page. Plain text pastes
+  // (e.g. into the instruction box) are left alone.
+  useEffect(() => {
+    if (disabled || isGenerating || hasOpenDialog) return;
+    const handlePaste = (e: ClipboardEvent) => {
+      const pasted = Array.from(e.clipboardData?.files || []);
+      if (!pasted.length) return;
+      e.preventDefault();
+      handleFiles(pasted.map(namePastedFile));
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [disabled, isGenerating, hasOpenDialog]);
+
+  const handleCapture = (file: File) => {
+    setIsCameraOpen(false);
+    handleFiles([file]);
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-        handleFile(e.target.files[0]);
+    if (e.target.files) {
+        handleFiles(Array.from(e.target.files));
     }
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  };
+
+  const handleRemoveFile = (id: string) => {
+    setFiles(prev => prev.filter(item => item.id !== id));
+  };
+
+  const handleConfirmPages = (pages: number[] | undefined) => {
+    setFiles(prev => prev.map(item => item.id === pagePickerId ? { ...item, pages } : item));
+    setPagePickerId(null);
+  };
+
+  const handleConfirmCrop = (crop: CropRect | undefined) => {
+    setFiles(prev => prev.map(item => item.id === cropperId ? { ...item, crop } : item));
+    setCropperId(null);
+  };
+
+  // The editor stays open if the export fails, so the drawing is not lost
+  const handleConfirmSketch = async (sketch: Sketch) => {
+    const target = sketchTarget;
+    try {
+      if (target === 'new') {
+        const count = files.filter(item => item.sketch).length;
+        const file = await sketchToFile(sketch, `草图 ${count + 1}.png`);
+        setFiles(prev => [...prev, { id: crypto.randomUUID(), file, sketch }]);
+      } else if (sketchItem) {
+        const file = await sketchToFile(sketch, sketchItem.file.name);
+        // The old crop no longer matches what was drawn
+        setFiles(prev => prev.map(item => item.id === target ? { ...item, file, sketch, crop: undefined } : item));
+      }
+      setSketchTarget(null);
+    } catch (error) {
+      console.error("Error exporting sketch:", error);
+      onNotice({ tone: 'error', title: "无法导出草图", message: "请重试。" });
+    }
+  };
+
+  const updateImageSettings = (changes: Partial<ImageProcessingSettings>) => {
+    const next = { ...imageSettings, ...changes };
+    setImageSettings(next);
+    saveImageProcessingSettings(next);
+  };
+
+  // Moves the dragged tray item into the slot of the item it was dropped on
+  const handleReorder = (targetId: string) => {
+    if (!draggedId || draggedId === targetId) return;
+    setFiles(prev => {
+      const moved = prev.find(item => item.id === draggedId);
+      if (!moved) return prev;
+      const rest = prev.filter(item => item.id !== draggedId);
+      const targetIndex = rest.findIndex(item => item.id === targetId);
+      const insertAt = prev.findIndex(item => item.id === draggedId) <= targetIndex ? targetIndex + 1 : targetIndex;
+      return [...rest.slice(0, insertAt), moved, ...rest.slice(insertAt)];
+    });
+    setDraggedId(null);
+  };
+
+  // Either input alone is enough: files only, text only, or both together
+  const canSubmit = (files.length > 0 || !!prompt.trim()) && !isGenerating && !disabled;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    onGenerate(prompt.trim(), files.map(({ file, pages, crop, sketch }) => ({ file, pages, crop, sketch })));
+    setPrompt("");
+    setFiles([]);
   };
 
   const handleDrop = useCallback((e: React.DragEvent<HTMLLabelElement>) => {
     e.preventDefault();
     setIsDragging(false);
     if (disabled || isGenerating) return;
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFiles(Array.from(e.dataTransfer.files));
     }
   }, [disabled, isGenerating]);
 
@@ -136,20 +358,150 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
                     </h3>
                     <p className="text-zinc-500 text-xs sm:text-base md:text-lg font-light tracking-wide">
                         <span className="hidden md:inline">拖放</span>
-                        <span className="md:hidden">点击</span> 上传任意文件
+                        <span className="md:hidden">点击</span> 上传一个或多个文件、粘贴截图，或直接在下方描述想要的应用
                     </p>
                 </div>
             </div>
 
             <input
                 type="file"
-                accept="image/*,application/pdf"
+                accept={`image/*,.heic,.heif,application/pdf,${DOCUMENT_ACCEPT}`}
+                multiple
                 className="hidden"
                 onChange={handleFileChange}
                 disabled={isGenerating || disabled}
             />
         </label>
+
+        {/* Staged files: drag to reorder, the order is the order the model sees them in */}
+        {files.length > 0 && (
+            <div className="mt-3 flex items-center gap-2 overflow-x-auto pb-1">
+                {files.map((item, index) => (
+                    <TrayItem
+                        key={item.id}
+                        item={item}
+                        index={index}
+                        onRemove={() => handleRemoveFile(item.id)}
+                        onPickPages={() => setPagePickerId(item.id)}
+                        onCrop={() => setCropperId(item.id)}
+                        onEditSketch={() => setSketchTarget(item.id)}
+                        onDragStart={() => setDraggedId(item.id)}
+                        onDrop={() => handleReorder(item.id)}
+                    />
+                ))}
+                {files.length > 1 && <span className="shrink-0 text-[10px] text-zinc-600 font-mono pl-1">拖动调整顺序</span>}
+            </div>
+        )}
+
+        {/* Images are downscaled and re-encoded in the browser before upload */}
+        {hasImages && (
+            <div className="mt-2 flex items-center gap-3 text-[10px] font-mono text-zinc-500">
+                <span>图片预处理</span>
+                <label className="flex items-center gap-1">
+                    最长边
+                    <select
+                        value={imageSettings.maxDimension}
+                        onChange={(e) => updateImageSettings({ maxDimension: Number(e.target.value) })}
+                        className="bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-zinc-300 focus:outline-none focus:border-blue-500"
+                    >
+                        {MAX_DIMENSION_OPTIONS.map(size => <option key={size} value={size}>{size}px</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center gap-1">
+                    格式
+                    <select
+                        value={imageSettings.format}
+                        onChange={(e) => updateImageSettings({ format: e.target.value as OutputFormat })}
+                        className="bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-zinc-300 focus:outline-none focus:border-blue-500"
+                    >
+                        {(Object.keys(OUTPUT_FORMAT_LABELS) as OutputFormat[]).map(format => (
+                            <option key={format} value={format}>{OUTPUT_FORMAT_LABELS[format]}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+        )}
+
+        {/* Instructions: combined with the files, or used on their own */}
+        <form onSubmit={handleSubmit} className="mt-3 flex items-center gap-2">
+            <div className="relative flex-1">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <SparklesIcon className="h-4 w-4 text-zinc-500" />
+                </div>
+                <input
+                    type="text"
+                    value={prompt}
+                    onChange={(e) => setPrompt(e.target.value)}
+                    disabled={isGenerating || disabled}
+                    placeholder={files.length ? "补充说明 (可选，例如：做成深色模式的看板)" : "描述你想要的应用，或先上传文件"}
+                    className="block w-full rounded-md border border-zinc-800 py-2.5 pl-10 pr-4 bg-zinc-900/60 backdrop-blur-sm text-zinc-200 placeholder:text-zinc-600 focus:ring-1 focus:ring-blue-500 focus:outline-none sm:text-sm sm:leading-6 font-mono shadow-sm"
+                />
+            </div>
+            {isCameraSupported() && (
+                <button
+                    type="button"
+                    onClick={() => setIsCameraOpen(true)}
+                    disabled={isGenerating || disabled}
+                    className="inline-flex items-center gap-x-1.5 rounded-md border border-zinc-800 bg-zinc-900/60 px-3 py-2.5 text-sm text-zinc-300 hover:text-white hover:border-zinc-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                    title="用摄像头拍照"
+                >
+                    <CameraIcon className="w-4 h-4" />
+                    <span className="hidden sm:inline">拍照</span>
+                </button>
+            )}
+            <button
+                type="button"
+                onClick={() => setSketchTarget('new')}
+                disabled={isGenerating || disabled}
+                className="inline-flex items-center gap-x-1.5 rounded-md border border-zinc-800 bg-zinc-900/60 px-3 py-2.5 text-sm text-zinc-300 hover:text-white hover:border-zinc-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                title="在画布上画出草图"
+            >
+                <PencilSquareIcon className="w-4 h-4" />
+                <span className="hidden sm:inline">画草图</span>
+            </button>
+            <button
+                type="submit"
+                disabled={!canSubmit}
+                className="inline-flex items-center gap-x-1.5 rounded-md bg-blue-600 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+                生成
+            </button>
+        </form>
       </div>
+
+      {/* Portalled out of the landing layout, whose transforms would trap a fixed overlay */}
+      {pagePickerItem && createPortal(
+        <PdfPagePicker
+          file={pagePickerItem.file}
+          pages={pagePickerItem.pages}
+          onConfirm={handleConfirmPages}
+          onClose={() => setPagePickerId(null)}
+        />,
+        document.body
+      )}
+      {cropperItem && createPortal(
+        <ImageCropper
+          file={cropperItem.file}
+          crop={cropperItem.crop}
+          onConfirm={handleConfirmCrop}
+          onClose={() => setCropperId(null)}
+        />,
+        document.body
+      )}
+      {(sketchTarget === 'new' || sketchItem) && createPortal(
+        <SketchEditor
+          key={sketchTarget}
+          sketch={sketchItem?.sketch}
+          confirmLabel={sketchItem ? '保存草图' : '添加到输入'}
+          onConfirm={handleConfirmSketch}
+          onClose={() => setSketchTarget(null)}
+        />,
+        document.body
+      )}
+      {isCameraOpen && createPortal(
+        <CameraCapture onCapture={handleCapture} onClose={() => setIsCameraOpen(false)} />,
+        document.body
+      )}
     </div>
   );
 };
\ No newline at end of file
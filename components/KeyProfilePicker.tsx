@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useReducer, useRef, useState } from 'react';
+import { ArrowPathIcon, CheckIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
+import { KeyProfile, getProfileLabel, PROVIDER_LABELS } from '../services/providers/registry';
+import { ProfileStatus, getProfileStatus, subscribeProfileStatus } from '../services/providers/profileStatus';
+
+interface KeyProfilePickerProps {
+  profiles: KeyProfile[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onValidateAll: () => void;
+}
+
+const STATUS_DOTS: Record<ProfileStatus, { className: string; label: string }> = {
+  unknown: { className: 'bg-zinc-600', label: '未检测' },
+  checking: { className: 'bg-zinc-400 animate-pulse', label: '检测中' },
+  valid: { className: 'bg-green-500', label: '可用' },
+  invalid: { className: 'bg-red-500', label: '无效' },
+  rate_limited: { className: 'bg-amber-500', label: '额度受限' },
+};
+
+const StatusDot = ({ status }: { status: ProfileStatus }) => (
+  <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${STATUS_DOTS[status].className}`} title={STATUS_DOTS[status].label} />
+);
+
+// Header dropdown for switching between saved key profiles, with each one's health.
+export const KeyProfilePicker: React.FC<KeyProfilePickerProps> = ({ profiles, activeId, onSelect, onValidateAll }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [, rerender] = useReducer((count: number) => count + 1, 0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Statuses change from validation and failover outside React
+  useEffect(() => subscribeProfileStatus(rerender), []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const active = profiles.find(profile => profile.id === activeId) || profiles[0];
+  if (!active) return null;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-1.5 max-w-[12rem] text-zinc-300 hover:text-white bg-zinc-900/50 hover:bg-zinc-800 rounded-full border border-zinc-800 transition-all backdrop-blur-sm hover:border-zinc-600"
+        title="切换密钥配置"
+      >
+        <StatusDot status={getProfileStatus(active.id)} />
+        <span className="text-xs font-medium truncate">{getProfileLabel(active)}</span>
+        <ChevronDownIcon className={`w-3 h-3 shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-[#121214] border border-zinc-800 rounded-lg shadow-2xl py-1 animate-in fade-in zoom-in-95 duration-150">
+          {profiles.map(profile => {
+            const status = getProfileStatus(profile.id);
+            return (
+              <button
+                key={profile.id}
+                onClick={() => {
+                  onSelect(profile.id);
+                  setIsOpen(false);
+                }}
+                className="w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-zinc-800/60 transition-colors"
+              >
+                <StatusDot status={status} />
+                <span className="flex-1 min-w-0">
+                  <span className="block text-xs text-zinc-200 truncate">{getProfileLabel(profile)}</span>
+                  <span className="block text-[10px] text-zinc-500 font-mono truncate">
+                    {PROVIDER_LABELS[profile.kind]} · {STATUS_DOTS[status].label}
+                  </span>
+                </span>
+                {profile.id === active.id && <CheckIcon className="w-3.5 h-3.5 text-blue-400 shrink-0" />}
+              </button>
+            );
+          })}
+          <div className="border-t border-zinc-800 mt-1 pt-1">
+            <button
+              onClick={onValidateAll}
+              className="w-full flex items-center gap-2 px-3 py-2 text-xs text-zinc-400 hover:text-white hover:bg-zinc-800/60 transition-colors"
+            >
+              <ArrowPathIcon className="w-3.5 h-3.5" />
+              检测全部配置
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
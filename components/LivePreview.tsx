@@ -2,24 +2,54 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useEffect, useState, useRef } from 'react';
-import { ArrowDownTrayIcon, PlusIcon, ViewColumnsIcon, DocumentIcon, CodeBracketIcon, XMarkIcon, PaperAirplaneIcon, SparklesIcon, LockClosedIcon, KeyIcon, ArrowRightOnRectangleIcon, Cog6ToothIcon } from '@heroicons/react/24/outline';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { PlusIcon, ViewColumnsIcon, DocumentIcon, CodeBracketIcon, XMarkIcon, PaperAirplaneIcon, SparklesIcon, LockClosedIcon, KeyIcon, ArrowRightOnRectangleIcon, Cog6ToothIcon, StopIcon, ChevronLeftIcon, ChevronRightIcon, ArrowsRightLeftIcon, ChatBubbleLeftRightIcon, GlobeAltIcon, ShieldCheckIcon, UsersIcon, PencilSquareIcon, CursorArrowRaysIcon } from '@heroicons/react/24/outline';
 import { Creation } from './CreationHistory';
+import { getVersionNumber } from '../services/versions';
+import { CompareView } from './CompareView';
+import { ChatTranscript } from './ChatTranscript';
+import { ConsolePanel } from './ConsolePanel';
+import { PdfViewer } from './PdfViewer';
+import { DocumentPreview } from './DocumentPreview';
+import { ExportMenu } from './ExportMenu';
+import { ViewportMenu } from './ViewportMenu';
+import { DeviceFrame } from './DeviceFrame';
+import { CodePanel } from './CodePanel';
+import { LoginForm } from './LoginForm';
+import { SketchEditor } from './SketchEditor';
+import { Sketch } from '../services/sketch';
+import { AuthUser, ROLE_LABELS, hasPermission } from '../services/auth';
+import { BRIDGE_TAG, ConsoleEntry, ElementTarget, isBridgeMessage, setInspectMode } from '../services/previewBridge';
+import { UpdateContext } from '../services/gemini';
+import { DevicePreset, SIDE_BY_SIDE_PRESETS, ViewportSettings, getViewportSize, loadViewportSettings, saveViewportSettings } from '../services/viewports';
+import { getPreviewSandbox, preparePreviewHtml } from '../services/previewSandbox';
+import { getSourceInputs, isDocumentInput, isImageInput, isPdfInput } from '../services/sourceInputs';
 
 interface LivePreviewProps {
   creation: Creation | null;
+  // All versions of the active creation's artifact, oldest first
+  versions: Creation[];
+  onSelectVersion: (creation: Creation) => void;
+  onRestoreVersion: (creation: Creation) => void;
+  onToggleNetworkAccess: (creation: Creation) => void;
+  onConvertToReact: (creation: Creation) => void;
+  isConvertingToReact: boolean;
   isLoading: boolean;
+  streamingHtml?: string;
   isFocused: boolean;
   onReset: () => void;
-  onUpdate: (prompt: string) => void;
+  onCancel: () => void;
+  onUpdate: (prompt: string, context?: Omit<UpdateContext, 'conversation'>) => void;
+  // Regenerates from the creation's inputs with the drawn input at `inputIndex` replaced
+  onReviseSketch: (inputIndex: number, sketch: Sketch) => void;
+  // Saves hand-edited source as the next version
+  onSaveManualEdit: (html: string) => void;
   onOpenSettings: () => void;
-}
-
-// Add type definition for the global pdfjsLib
-declare global {
-  interface Window {
-    pdfjsLib: any;
-  }
+  currentUser: AuthUser | null;
+  onAuthenticated: (user: AuthUser) => void;
+  onLogout: () => void;
+  onOpenUserAdmin: () => void;
 }
 
 const LoadingStep = ({ text, active, completed }: { text: string, active: boolean, completed: boolean }) => (
@@ -37,91 +67,160 @@ const LoadingStep = ({ text, active, completed }: { text: string, active: boolea
     </div>
 );
 
-const PdfRenderer = ({ dataUrl }: { dataUrl: string }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+const MAX_CONSOLE_ENTRIES = 500;
+// Pause in typing before the preview re-renders the code being edited
+const LIVE_RENDER_DELAY = 600;
 
-  useEffect(() => {
-    const renderPdf = async () => {
-      if (!window.pdfjsLib) {
-        setError("PDF 库未初始化");
-        setLoading(false);
-        return;
-      }
-
-      try {
-        setLoading(true);
-        // Load the document
-        const loadingTask = window.pdfjsLib.getDocument(dataUrl);
-        const pdf = await loadingTask.promise;
-        
-        // Get the first page
-        const page = await pdf.getPage(1);
-        
-        const canvas = canvasRef.current;
-        if (!canvas) return;
+const CancelButton = ({ onCancel }: { onCancel: () => void }) => (
+    <button
+        onClick={onCancel}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-zinc-700 bg-zinc-900 hover:bg-red-500/10 hover:border-red-500/40 text-zinc-400 hover:text-red-400 text-xs font-mono transition-colors"
+        title="取消本次生成"
+    >
+        <StopIcon className="w-3.5 h-3.5" />
+        取消
+    </button>
+);
 
-        const context = canvas.getContext('2d');
-        
-        // Calculate scale to make it look good (High DPI)
-        const viewport = page.getViewport({ scale: 2.0 });
+// Renders the partially streamed document plus a live tail of the incoming code.
+// The iframe is refreshed on a throttle so it doesn't reload on every chunk.
+const StreamingPreview = ({ html, onCancel }: { html: string, onCancel: () => void }) => {
+  const [renderedHtml, setRenderedHtml] = useState(html);
+  const lastRenderRef = useRef(0);
+  const codeTailRef = useRef<HTMLPreElement>(null);
 
-        canvas.height = viewport.height;
-        canvas.width = viewport.width;
+  useEffect(() => {
+    const elapsed = Date.now() - lastRenderRef.current;
+    const delay = Math.max(0, 1200 - elapsed);
+    const timer = setTimeout(() => {
+      lastRenderRef.current = Date.now();
+      setRenderedHtml(html);
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [html]);
 
-        const renderContext = {
-          canvasContext: context,
-          viewport: viewport,
-        };
+  useEffect(() => {
+    if (codeTailRef.current) {
+      codeTailRef.current.scrollTop = codeTailRef.current.scrollHeight;
+    }
+  }, [html]);
 
-        await page.render(renderContext).promise;
-        setLoading(false);
-      } catch (err) {
-        console.error("Error rendering PDF:", err);
-        setError("无法渲染 PDF 预览。");
-        setLoading(false);
-      }
-    };
+  const lineCount = html.split('\n').length;
+  const codeTail = html.split('\n').slice(-60).join('\n');
 
-    renderPdf();
-  }, [dataUrl]);
+  return (
+    <div className="absolute inset-0 flex flex-col md:flex-row w-full z-10 bg-[#09090b]">
+        {/* Partial Render */}
+        <div className="relative flex-1 h-1/2 md:h-full bg-white">
+            <iframe
+                title="Gemini 流式预览"
+                srcDoc={preparePreviewHtml(renderedHtml)}
+                className="w-full h-full"
+                sandbox={getPreviewSandbox(false)}
+            />
+            <div className="absolute top-4 left-4 z-10 bg-black/80 backdrop-blur text-blue-400 text-[10px] font-mono uppercase px-2 py-1 rounded border border-blue-500/30 flex items-center gap-1.5">
+                <div className="w-1.5 h-1.5 bg-blue-400 rounded-full animate-pulse"></div>
+                实时生成中
+            </div>
+        </div>
 
-  if (error) {
-    return (
-        <div className="flex flex-col items-center justify-center h-full text-zinc-500 p-6 text-center">
-            <DocumentIcon className="w-12 h-12 mb-3 opacity-50 text-red-400" />
-            <p className="text-sm mb-2 text-red-400/80">{error}</p>
+        {/* Live Code Tail */}
+        <div className="w-full md:w-[28rem] h-1/2 md:h-full border-t md:border-t-0 md:border-l border-zinc-800 bg-black/80 flex flex-col shrink-0">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-zinc-800 text-[10px] font-mono uppercase tracking-wider text-zinc-500">
+                <span>代码输出</span>
+                <div className="flex items-center gap-3">
+                    <span>{lineCount} 行 · {html.length} 字符</span>
+                    <CancelButton onCancel={onCancel} />
+                </div>
+            </div>
+            <pre
+                ref={codeTailRef}
+                className="flex-1 overflow-auto p-4 text-[11px] leading-relaxed font-mono text-zinc-400 whitespace-pre-wrap break-all"
+            >
+                {codeTail}
+                <span className="inline-block w-1.5 h-3 bg-blue-400 animate-pulse align-middle ml-0.5"></span>
+            </pre>
         </div>
-    );
-  }
+    </div>
+  );
+};
+
+// Steps between the versions of one artifact. Each edit records which version
+// it was made from, so branches off an older version show their parent.
+const VersionTimeline = ({ versions, activeId, onSelect }: { versions: Creation[], activeId: string, onSelect: (creation: Creation) => void }) => {
+  const activeIndex = versions.findIndex(v => v.id === activeId);
+  const versionOf = (id?: string) => {
+    const parent = versions.find(v => v.id === id);
+    return parent ? getVersionNumber(parent) : undefined;
+  };
 
   return (
-    <div className="relative w-full h-full flex items-center justify-center">
-        {loading && (
-            <div className="absolute inset-0 flex items-center justify-center z-10">
-                <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
-            </div>
-        )}
-        <canvas 
-            ref={canvasRef} 
-            className={`max-w-full max-h-full object-contain shadow-xl border border-zinc-800/50 rounded transition-opacity duration-500 ${loading ? 'opacity-0' : 'opacity-100'}`}
-        />
+    <div className="bg-[#0E0E10] px-4 py-1.5 flex items-center gap-2 border-b border-zinc-800 shrink-0 overflow-x-auto scrollbar-hide">
+        <span className="text-[10px] font-mono uppercase tracking-wider text-zinc-600 mr-1 shrink-0">版本</span>
+        <button
+            onClick={() => onSelect(versions[activeIndex - 1])}
+            disabled={activeIndex <= 0}
+            className="p-1 rounded text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 disabled:opacity-30 disabled:pointer-events-none shrink-0"
+            title="上一个版本"
+        >
+            <ChevronLeftIcon className="w-3 h-3" />
+        </button>
+        {versions.map((version, index) => {
+            const parentVersion = versionOf(version.parentId);
+            const isBranch = parentVersion !== undefined && index > 0 && parentVersion !== getVersionNumber(versions[index - 1]);
+            return (
+                <button
+                    key={version.id}
+                    onClick={() => onSelect(version)}
+                    title={`${version.timestamp.toLocaleString('zh-CN')}${parentVersion ? ` · 基于 v${parentVersion}` : ''}`}
+                    className={`shrink-0 px-2 py-0.5 rounded-md text-[11px] font-mono border transition-colors ${
+                        version.id === activeId
+                            ? 'bg-blue-500/15 border-blue-500/40 text-blue-300'
+                            : 'border-zinc-800 text-zinc-500 hover:text-zinc-200 hover:border-zinc-600'
+                    }`}
+                >
+                    v{getVersionNumber(version)}
+                    {isBranch && <span className="text-zinc-600 ml-1">←v{parentVersion}</span>}
+                </button>
+            );
+        })}
+        <button
+            onClick={() => onSelect(versions[activeIndex + 1])}
+            disabled={activeIndex < 0 || activeIndex >= versions.length - 1}
+            className="p-1 rounded text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 disabled:opacity-30 disabled:pointer-events-none shrink-0"
+            title="下一个版本"
+        >
+            <ChevronRightIcon className="w-3 h-3" />
+        </button>
     </div>
   );
 };
 
-export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, isFocused, onReset, onUpdate, onOpenSettings }) => {
+export const LivePreview: React.FC<LivePreviewProps> = ({ creation, versions, onSelectVersion, onRestoreVersion, onToggleNetworkAccess, onConvertToReact, isConvertingToReact, isLoading, streamingHtml = '', isFocused, onReset, onCancel, onUpdate, onReviseSketch, onSaveManualEdit, onOpenSettings, currentUser, onAuthenticated, onLogout, onOpenUserAdmin }) => {
     const [loadingStep, setLoadingStep] = useState(0);
     const [showSplitView, setShowSplitView] = useState(false);
+    const [activeInputIndex, setActiveInputIndex] = useState(0);
+    const [isEditingSketch, setIsEditingSketch] = useState(false);
     const [updatePrompt, setUpdatePrompt] = useState("");
+    const [isComparing, setIsComparing] = useState(false);
+    const [showChat, setShowChat] = useState(false);
+    const [showCode, setShowCode] = useState(false);
+    // Unsaved source edits by version id, so switching versions does not lose them.
+    // A version only has an entry while its draft differs from its saved code.
+    const [codeDrafts, setCodeDrafts] = useState<Record<string, string>>({});
+    const [renderedDraft, setRenderedDraft] = useState<{ id: string, html: string } | null>(null);
+    // Point-and-click targeting: elements picked in the preview for the next update
+    const [isInspecting, setIsInspecting] = useState(false);
+    const [targets, setTargets] = useState<ElementTarget[]>([]);
+    const [viewport, setViewport] = useState<ViewportSettings>(loadViewportSettings);
+    const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([]);
+    // Every iframe rendering the app; several when viewports are shown side by side.
+    // The first one is the primary preview whose console output is collected.
+    const previewFramesRef = useRef<(HTMLIFrameElement | null)[]>([]);
 
     // Auth State
-    const [isAuthenticated, setIsAuthenticated] = useState(false);
     const [showLogin, setShowLogin] = useState(false);
-    const [username, setUsername] = useState("");
-    const [password, setPassword] = useState("");
-    const [authError, setAuthError] = useState("");
+    const canEdit = hasPermission(currentUser, 'edit');
 
     // Handle loading animation steps
     useEffect(() => {
@@ -136,53 +235,125 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
         }
     }, [isLoading]);
 
-    // Default to Split View when a new creation with an image is loaded
+    const sourceInputs = useMemo(() => creation ? getSourceInputs(creation) : [], [creation]);
+    const activeInput = sourceInputs[Math.min(activeInputIndex, sourceInputs.length - 1)];
+
+    // Default to Split View when a new creation with source files is loaded
     useEffect(() => {
-        if (creation?.originalImage) {
-            setShowSplitView(true);
-        } else {
-            setShowSplitView(false);
-        }
+        setShowSplitView(sourceInputs.length > 0);
+        setActiveInputIndex(0);
     }, [creation]);
 
-    const handleExport = () => {
+    // Leave compare mode when a different creation is shown (e.g. after restoring)
+    useEffect(() => {
+        setIsComparing(false);
+    }, [creation?.id]);
+
+    // Picked elements belong to the version they were made on
+    useEffect(() => {
+        setTargets([]);
+        setIsInspecting(false);
+    }, [creation?.id]);
+
+    useEffect(() => {
+        previewFramesRef.current.forEach(frame => setInspectMode(frame, isInspecting));
+    }, [isInspecting]);
+
+    const codeDraft = creation ? codeDrafts[creation.id] ?? null : null;
+
+    const withoutDraft = (id: string) => {
+        const next = { ...codeDrafts };
+        delete next[id];
+        return next;
+    };
+
+    const setCodeDraft = (html: string) => {
         if (!creation) return;
-        const dataStr = JSON.stringify(creation, null, 2);
-        const blob = new Blob([dataStr], { type: "application/json" });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `${creation.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_artifact.json`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        setCodeDrafts(html === creation.html ? withoutDraft(creation.id) : { ...codeDrafts, [creation.id]: html });
     };
 
-    const handleUpdateSubmit = (e: React.FormEvent) => {
-        e.preventDefault();
-        if (updatePrompt.trim()) {
-            onUpdate(updatePrompt);
-            setUpdatePrompt("");
+    useEffect(() => {
+        if (!creation || codeDraft === null) {
+            setRenderedDraft(null);
+            return;
         }
+        const timer = setTimeout(() => setRenderedDraft({ id: creation.id, html: codeDraft }), LIVE_RENDER_DELAY);
+        return () => clearTimeout(timer);
+    }, [codeDraft, creation?.id]);
+
+    // A draft only renders on the version it was typed into
+    const draftHtml = creation && renderedDraft?.id === creation.id ? renderedDraft.html : null;
+
+    const previewHtml = useMemo(
+        () => creation ? preparePreviewHtml(draftHtml ?? creation.html, { allowNetwork: creation.allowNetwork, headMarkup: BRIDGE_TAG }) : '',
+        [creation?.html, creation?.allowNetwork, draftHtml]
+    );
+
+    // Collect console output and picked elements forwarded by the bridge script in the preview iframe
+    useEffect(() => {
+        setConsoleEntries([]);
+        const handleMessage = (event: MessageEvent) => {
+            const frameIndex = previewFramesRef.current.findIndex(frame => frame && frame.contentWindow === event.source);
+            if (frameIndex === -1 || !isBridgeMessage(event.data)) return;
+            const data = event.data;
+            // The other viewports run the same code, so their console output would only repeat it
+            if (data.type === 'console' && frameIndex === 0) {
+                const { level, message, uncaught } = data;
+                setConsoleEntries(prev => [...prev.slice(-(MAX_CONSOLE_ENTRIES - 1)), { id: Date.now() + Math.random(), level, message, uncaught, timestamp: Date.now() }]);
+            } else if (data.type === 'element') {
+                const { selector, html, label } = data;
+                setTargets(prev => prev.some(target => target.selector === selector) ? prev : [...prev, { selector, html, label }]);
+            } else if (data.type === 'inspect-exit') {
+                setIsInspecting(false);
+            }
+        };
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, [previewHtml]);
+
+    const handleFixErrors = (errors: string[]) => {
+        onUpdate(`修复运行时错误（共 ${errors.length} 条）`, { runtimeErrors: errors });
     };
 
-    const handleLogin = (e: React.FormEvent) => {
-        e.preventDefault();
-        if (username === "canton09" && password === "WW810922") {
-            setIsAuthenticated(true);
-            setShowLogin(false);
-            setAuthError("");
-            setUsername("");
-            setPassword("");
-        } else {
-            setAuthError("访问被拒绝：凭证无效");
-            setPassword(""); // Clear password on error
+    const handleToggleNetworkAccess = () => {
+        if (!creation) return;
+        if (!creation.allowNetwork && !window.confirm("允许此作品访问网络？\n生成的代码将可以发起网络请求并加载外部图片，可能会把页面中的数据发送到第三方。")) {
+            return;
         }
+        onToggleNetworkAccess(creation);
     };
 
-    const handleLogout = () => {
-        setIsAuthenticated(false);
+    // Devices to render the preview in; none means the preview fills the panel
+    const devicePresets: DevicePreset[] = viewport.sideBySide ? SIDE_BY_SIDE_PRESETS : viewport.preset === 'fill' ? [] : [viewport.preset];
+
+    const updateViewport = (changes: Partial<ViewportSettings>) => {
+        const next = { ...viewport, ...changes };
+        setViewport(next);
+        saveViewportSettings(next);
+    };
+
+    // Closing the panel discards the drafts of every version, not just the one shown
+    const handleToggleCode = () => {
+        if (showCode && Object.keys(codeDrafts).length && !window.confirm("放弃未保存的代码修改？")) return;
+        if (showCode) setCodeDrafts({});
+        setShowCode(!showCode);
+    };
+
+    const handleSaveCode = () => {
+        if (!creation || codeDraft === null) return;
+        // The edit now lives on as the new version
+        setCodeDrafts(withoutDraft(creation.id));
+        onSaveManualEdit(codeDraft);
+    };
+
+    const handleUpdateSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (updatePrompt.trim()) {
+            onUpdate(updatePrompt, targets.length ? { targets } : undefined);
+            setUpdatePrompt("");
+            setTargets([]);
+            setIsInspecting(false);
+        }
     };
 
   return (
@@ -227,15 +398,15 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
         <div className="flex items-center space-x-2 text-zinc-500">
             <CodeBracketIcon className="w-3 h-3" />
             <span className="text-[11px] font-mono uppercase tracking-wider">
-                {isLoading ? '系统处理中...' : creation ? creation.name : '预览模式'}
+                {isLoading ? '系统处理中...' : creation ? `${creation.name}${versions.length > 1 ? ` · v${getVersionNumber(creation)}` : ''}` : '预览模式'}
             </span>
         </div>
 
         {/* Right: Actions */}
-        <div className="flex items-center justify-end space-x-1 w-32">
+        <div className="flex items-center justify-end space-x-1 min-w-[8rem]">
             {!isLoading && creation && (
                 <>
-                    {creation.originalImage && (
+                    {sourceInputs.length > 0 && (
                          <button 
                             onClick={() => setShowSplitView(!showSplitView)}
                             title={showSplitView ? "仅显示应用" : "与原图对比"}
@@ -245,14 +416,51 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
                         </button>
                     )}
 
-                    <button 
-                        onClick={handleExport}
-                        title="导出成品 (JSON)"
-                        className="text-zinc-500 hover:text-zinc-300 transition-colors p-1.5 rounded-md hover:bg-zinc-800"
+                    <ViewportMenu settings={viewport} onChange={updateViewport} />
+
+                    <button
+                        onClick={handleToggleCode}
+                        title={showCode ? "隐藏源代码" : "查看源代码"}
+                        className={`p-1.5 rounded-md transition-all ${showCode ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                    >
+                        <CodeBracketIcon className="w-4 h-4" />
+                    </button>
+
+                    {versions.length > 1 && (
+                        <button
+                            onClick={() => setIsComparing(!isComparing)}
+                            title={isComparing ? "退出对比" : "对比版本"}
+                            className={`p-1.5 rounded-md transition-all ${isComparing ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                        >
+                            <ArrowsRightLeftIcon className="w-4 h-4" />
+                        </button>
+                    )}
+
+                    <button
+                        onClick={handleToggleNetworkAccess}
+                        disabled={!canEdit}
+                        title={creation.allowNetwork ? "网络访问已允许（点击恢复隔离）" : "网络访问已阻止（点击允许）"}
+                        className={`p-1.5 rounded-md transition-all ${creation.allowNetwork ? 'bg-amber-500/10 text-amber-400 hover:bg-amber-500/20' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'} disabled:pointer-events-none`}
+                    >
+                        {creation.allowNetwork ? <GlobeAltIcon className="w-4 h-4" /> : <ShieldCheckIcon className="w-4 h-4" />}
+                    </button>
+
+                    <button
+                        onClick={() => setShowChat(!showChat)}
+                        title={showChat ? "隐藏对话记录" : "显示对话记录"}
+                        className={`p-1.5 rounded-md transition-all ${showChat ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
                     >
-                        <ArrowDownTrayIcon className="w-4 h-4" />
+                        <ChatBubbleLeftRightIcon className="w-4 h-4" />
                     </button>
 
+                    {hasPermission(currentUser, 'export') && (
+                        <ExportMenu
+                            creation={creation}
+                            onConvertToReact={() => onConvertToReact(creation)}
+                            isConvertingToReact={isConvertingToReact}
+                        />
+                    )}
+
                     <button 
                         onClick={onReset}
                         title="新建上传"
@@ -266,9 +474,16 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
         </div>
       </div>
 
+      {/* Version Timeline */}
+      {!isLoading && creation && versions.length > 1 && (
+        <VersionTimeline versions={versions} activeId={creation.id} onSelect={onSelectVersion} />
+      )}
+
       {/* Main Content Area */}
       <div className="relative w-full flex-1 bg-[#09090b] flex overflow-hidden">
-        {isLoading ? (
+        {isLoading && streamingHtml ? (
+          <StreamingPreview html={streamingHtml} onCancel={onCancel} />
+        ) : isLoading ? (
           <div className="absolute inset-0 flex flex-col items-center justify-center p-8 w-full z-10 bg-[#09090b]">
              {/* Technical Loading State */}
              <div className="w-full max-w-md space-y-8">
@@ -294,54 +509,170 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
                      <LoadingStep text="正在应用更改" active={loadingStep === 2} completed={loadingStep > 2} />
                      <LoadingStep text="正在重新编译" active={loadingStep === 3} completed={loadingStep > 3} />
                  </div>
+
+                 <div className="flex justify-center">
+                     <CancelButton onCancel={onCancel} />
+                 </div>
              </div>
           </div>
+        ) : creation?.html && isComparing && versions.length > 1 ? (
+          <CompareView
+            versions={versions}
+            current={creation}
+            onRestore={onRestoreVersion}
+            canRestore={canEdit}
+            onClose={() => setIsComparing(false)}
+          />
         ) : creation?.html ? (
           <>
-            {/* Split View: Left Panel (Original Image) */}
-            {showSplitView && creation.originalImage && (
+            {/* Left Panel: source code editor, or the original input in split view */}
+            {showCode ? (
+                <CodePanel
+                    html={creation.html}
+                    draft={codeDraft ?? creation.html}
+                    onDraftChange={setCodeDraft}
+                    canEdit={canEdit}
+                    onSave={handleSaveCode}
+                    onClose={handleToggleCode}
+                />
+            ) : showSplitView && activeInput && (
                 <div className="w-full md:w-1/2 h-1/2 md:h-full border-b md:border-b-0 md:border-r border-zinc-800 bg-[#0c0c0e] relative flex flex-col shrink-0">
                     <div className="absolute top-4 left-4 z-10 bg-black/80 backdrop-blur text-zinc-400 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-800">
-                        输入源
+                        输入源{sourceInputs.length > 1 && ` ${sourceInputs.indexOf(activeInput) + 1}/${sourceInputs.length}`}
                     </div>
-                    <div className="w-full h-full p-6 flex items-center justify-center overflow-hidden">
-                        {creation.originalImage.startsWith('data:application/pdf') ? (
-                            <PdfRenderer dataUrl={creation.originalImage} />
+                    {activeInput.sketch && canEdit && (
+                        <button
+                            onClick={() => setIsEditingSketch(true)}
+                            className="absolute top-4 right-4 z-10 flex items-center gap-1.5 bg-black/80 backdrop-blur text-zinc-300 hover:text-white text-[10px] font-mono px-2 py-1 rounded border border-zinc-800 hover:border-blue-500 transition-colors"
+                            title="修改草图并重新生成"
+                        >
+                            <PencilSquareIcon className="w-3.5 h-3.5" />
+                            编辑草图
+                        </button>
+                    )}
+                    <div className="w-full flex-1 min-h-0 p-6 flex items-center justify-center overflow-hidden">
+                        {isPdfInput(activeInput) ? (
+                            <PdfViewer src={activeInput.dataUrl} pages={activeInput.pages} />
+                        ) : isDocumentInput(activeInput) ? (
+                            <DocumentPreview input={activeInput} />
                         ) : (
                             <img 
-                                src={creation.originalImage} 
+                                src={activeInput.dataUrl} 
                                 alt="原始输入" 
                                 className="max-w-full max-h-full object-contain shadow-xl border border-zinc-800/50 rounded"
                             />
                         )}
                     </div>
+                    {/* Source file strip, in the order they were sent */}
+                    {sourceInputs.length > 1 && (
+                        <div className="shrink-0 flex gap-2 px-4 pb-4 overflow-x-auto">
+                            {sourceInputs.map((input, index) => (
+                                <button
+                                    key={index}
+                                    onClick={() => setActiveInputIndex(index)}
+                                    title={input.name}
+                                    className={`shrink-0 w-14 h-14 rounded border overflow-hidden bg-zinc-900 transition-colors ${input === activeInput ? 'border-blue-500' : 'border-zinc-800 hover:border-zinc-600 opacity-60 hover:opacity-100'}`}
+                                >
+                                    {isImageInput(input) ? (
+                                        <img src={input.dataUrl} alt={input.name} className="w-full h-full object-cover" />
+                                    ) : (
+                                        <DocumentIcon className="w-6 h-6 m-auto text-zinc-500" />
+                                    )}
+                                </button>
+                            ))}
+                        </div>
+                    )}
                 </div>
             )}
 
             {/* App Preview Panel */}
-            <div className={`relative h-full bg-white transition-all duration-500 ${showSplitView && creation.originalImage ? 'w-full md:w-1/2 h-1/2 md:h-full' : 'w-full'}`}>
-                 <iframe
-                    title="Gemini 实时预览"
-                    srcDoc={creation.html}
-                    className="w-full h-full"
-                    sandbox="allow-scripts allow-forms allow-popups allow-modals allow-same-origin"
+            <div className={`relative h-full flex flex-col transition-all duration-500 ${devicePresets.length ? 'bg-[#09090b]' : 'bg-white'} ${showCode || (showSplitView && activeInput) ? 'w-full md:w-1/2 h-1/2 md:h-full' : 'w-full'}`}>
+                {!devicePresets.length ? (
+                    <iframe
+                        ref={frame => { previewFramesRef.current[0] = frame; }}
+                        title="Gemini 实时预览"
+                        srcDoc={previewHtml}
+                        // A reload (live code edits, network toggle) resets the bridge, so restore inspect mode
+                        onLoad={e => isInspecting && setInspectMode(e.currentTarget, true)}
+                        className="w-full flex-1 min-h-0"
+                        sandbox={getPreviewSandbox(!!creation.allowNetwork)}
+                    />
+                ) : (
+                    <div className="flex-1 min-h-0 flex overflow-x-auto">
+                        {devicePresets.map((preset, index) => (
+                            <DeviceFrame key={preset} preset={preset} size={getViewportSize(preset, viewport)} fitToPanel={viewport.fitToPanel}>
+                                <iframe
+                                    ref={frame => { previewFramesRef.current[index] = frame; }}
+                                    title={index === 0 ? "Gemini 实时预览" : `Gemini 实时预览 (${preset})`}
+                                    srcDoc={previewHtml}
+                                    onLoad={e => isInspecting && setInspectMode(e.currentTarget, true)}
+                                    className="w-full h-full"
+                                    sandbox={getPreviewSandbox(!!creation.allowNetwork)}
+                                />
+                            </DeviceFrame>
+                        ))}
+                    </div>
+                )}
+                <ConsolePanel
+                    entries={consoleEntries}
+                    onClear={() => setConsoleEntries([])}
+                    onFixErrors={handleFixErrors}
+                    canFix={canEdit}
                 />
             </div>
+
+            {/* Conversation Panel */}
+            {showChat && (
+                <ChatTranscript
+                    conversation={creation.conversation || []}
+                    versions={versions}
+                    activeId={creation.id}
+                    onSelectVersion={onSelectVersion}
+                    onClose={() => setShowChat(false)}
+                />
+            )}
           </>
         ) : null}
       </div>
 
-      {/* Footer / Modification Bar (Gated) */}
+      {/* Footer / Modification Bar (Gated by role) */}
       {!isLoading && creation && (
         <div className="bg-[#121214] border-t border-zinc-800 p-3 shrink-0 min-h-[64px] flex items-center justify-center transition-all duration-300">
-            {isAuthenticated ? (
-                /* Authenticated State: Modification Input */
+            {currentUser && canEdit ? (
+                /* Editor/Admin: Modification Input */
                 <form onSubmit={handleUpdateSubmit} className="relative max-w-3xl mx-auto w-full flex items-center gap-2 animate-in fade-in slide-in-from-bottom-2">
                     <div className="absolute -top-10 left-0 bg-blue-900/30 text-blue-400 text-[10px] font-mono px-2 py-0.5 rounded border border-blue-500/30 flex items-center gap-1">
                         <KeyIcon className="w-3 h-3" />
-                        管理员已登录: CANTON09
+                        {ROLE_LABELS[currentUser.role]}已登录: {currentUser.username}
                     </div>
                     
+                    {targets.length > 0 && (
+                        <div className="absolute bottom-full mb-2 right-0 max-w-[70%] flex flex-wrap justify-end gap-1">
+                            {targets.map(target => (
+                                <span key={target.selector} title={target.selector} className="flex items-center gap-1 bg-blue-900/40 text-blue-300 text-[10px] font-mono pl-2 pr-1 py-0.5 rounded border border-blue-500/30 max-w-[16rem]">
+                                    <span className="truncate">{target.label}</span>
+                                    <button
+                                        type="button"
+                                        onClick={() => setTargets(prev => prev.filter(item => item !== target))}
+                                        className="shrink-0 text-blue-400/70 hover:text-white"
+                                        title="移除"
+                                    >
+                                        <XMarkIcon className="w-3 h-3" />
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+
+                    <button
+                        type="button"
+                        onClick={() => setIsInspecting(!isInspecting)}
+                        title={isInspecting ? "退出元素选择 (Esc)" : "在预览中点选要修改的元素"}
+                        className={`p-2.5 rounded-md transition-colors ${isInspecting ? 'bg-blue-600/20 text-blue-400' : 'text-zinc-500 hover:text-blue-400 hover:bg-zinc-900'}`}
+                    >
+                        <CursorArrowRaysIcon className="w-5 h-5" />
+                    </button>
+
                     <div className="relative flex-1">
                         <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                             <SparklesIcon className="h-4 w-4 text-zinc-500" />
@@ -350,7 +681,7 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
                             type="text"
                             value={updatePrompt}
                             onChange={(e) => setUpdatePrompt(e.target.value)}
-                            placeholder="输入指令以修改程序 (例如：把背景改成星空，增加计分板...)"
+                            placeholder={targets.length ? "描述要对选中元素做的修改..." : isInspecting ? "在预览中点击要修改的元素..." : "输入指令以修改程序 (例如：把背景改成星空，增加计分板...)"}
                             className="block w-full rounded-md border-0 py-2.5 pl-10 pr-4 bg-zinc-900 text-zinc-200 placeholder:text-zinc-600 focus:ring-1 focus:ring-blue-500 sm:text-sm sm:leading-6 font-mono shadow-sm"
                         />
                     </div>
@@ -362,66 +693,66 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
                         <PaperAirplaneIcon className="h-4 w-4" />
                         <span className="hidden sm:inline">发送</span>
                     </button>
+                    {hasPermission(currentUser, 'manageUsers') && (
+                        <button
+                            type="button"
+                            onClick={onOpenUserAdmin}
+                            className="p-2.5 text-zinc-500 hover:text-blue-400 hover:bg-zinc-900 rounded-md transition-colors"
+                            title="用户管理"
+                        >
+                            <UsersIcon className="w-5 h-5" />
+                        </button>
+                    )}
                     <button 
                         type="button" 
-                        onClick={handleLogout}
+                        onClick={onLogout}
                         className="p-2.5 text-zinc-500 hover:text-red-400 hover:bg-zinc-900 rounded-md transition-colors"
-                        title="退出管理员模式"
+                        title="退出登录"
                     >
                         <ArrowRightOnRectangleIcon className="w-5 h-5" />
                     </button>
                 </form>
+            ) : currentUser ? (
+                /* Viewer: logged in but without edit permission */
+                <div className="flex items-center gap-3 text-xs font-mono text-zinc-500">
+                    <LockClosedIcon className="w-3.5 h-3.5" />
+                    <span>{currentUser.username}（{ROLE_LABELS[currentUser.role]}）没有修改权限</span>
+                    <button onClick={onLogout} className="text-zinc-400 hover:text-red-400 transition-colors">退出登录</button>
+                </div>
             ) : (
-                /* Unauthenticated State: Login Trigger */
+                /* Anonymous: Login Trigger */
                 <div className="w-full flex justify-center">
                     {showLogin ? (
-                         <form onSubmit={handleLogin} className="flex items-center space-x-2 bg-zinc-900/50 p-1.5 rounded-md border border-zinc-700 animate-in fade-in zoom-in-95 duration-200">
-                            <div className="flex items-center text-zinc-500 px-2 border-r border-zinc-700 mr-1">
-                                <LockClosedIcon className="w-3 h-3 mr-1.5" />
-                                <span className="text-[10px] font-mono tracking-wider">ADMIN_AUTH</span>
-                            </div>
-                            
-                            <input 
-                                type="text" 
-                                placeholder="用户名" 
-                                className="bg-black border border-zinc-700 text-zinc-300 text-xs px-2 py-1.5 rounded w-28 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none font-mono placeholder:text-zinc-700"
-                                value={username}
-                                onChange={e => setUsername(e.target.value)}
-                                autoFocus
-                            />
-                            <input 
-                                type="password" 
-                                placeholder="密码" 
-                                className="bg-black border border-zinc-700 text-zinc-300 text-xs px-2 py-1.5 rounded w-28 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none font-mono placeholder:text-zinc-700"
-                                value={password}
-                                onChange={e => setPassword(e.target.value)}
-                            />
-                            
-                            <button type="submit" className="bg-zinc-100 hover:bg-white text-zinc-900 text-xs px-3 py-1.5 rounded font-bold font-mono transition-colors">
-                                登录
-                            </button>
-                            
-                            {authError && (
-                                <span className="text-red-500 text-[10px] font-mono px-1 animate-pulse">{authError}</span>
-                            )}
-                            
-                            <button type="button" onClick={() => {setShowLogin(false); setAuthError("");}} className="text-zinc-500 hover:text-zinc-300 ml-1">
-                                <XMarkIcon className="w-4 h-4" />
-                            </button>
-                         </form>
+                        <LoginForm
+                            onAuthenticated={(user) => { setShowLogin(false); onAuthenticated(user); }}
+                            onCancel={() => setShowLogin(false)}
+                        />
                     ) : (
                         <button 
                             onClick={() => setShowLogin(true)}
                             className="group flex items-center space-x-2 px-4 py-2 rounded-full border border-zinc-800 bg-zinc-900/50 hover:bg-zinc-800 hover:border-zinc-700 transition-all text-zinc-500 hover:text-zinc-300"
                         >
                             <LockClosedIcon className="w-3.5 h-3.5 group-hover:text-blue-400 transition-colors" />
-                            <span className="text-xs font-mono tracking-wide">启用管理员修改模式</span>
+                            <span className="text-xs font-mono tracking-wide">登录以启用修改模式</span>
                         </button>
                     )}
                 </div>
             )}
         </div>
       )}
+
+      {isEditingSketch && activeInput?.sketch && createPortal(
+        <SketchEditor
+          sketch={activeInput.sketch}
+          confirmLabel="重新生成"
+          onConfirm={(sketch) => {
+              setIsEditingSketch(false);
+              onReviseSketch(sourceInputs.indexOf(activeInput), sketch);
+          }}
+          onClose={() => setIsEditingSketch(false)}
+        />,
+        document.body
+      )}
     </div>
   );
 };
\ No newline at end of file
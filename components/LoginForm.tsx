@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { LockClosedIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { AuthError, AuthUser, createAccount, hasAccounts, login } from '../services/auth';
+
+interface LoginFormProps {
+  onAuthenticated: (user: AuthUser) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = "bg-black border border-zinc-700 text-zinc-300 text-xs px-2 py-1.5 rounded w-28 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none font-mono placeholder:text-zinc-700";
+
+// Compact inline login. On a fresh install (no accounts yet) it creates the first admin instead.
+export const LoginForm: React.FC<LoginFormProps> = ({ onAuthenticated, onCancel }) => {
+  const [isSetup] = useState(() => !hasAccounts());
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSetup && password !== confirmPassword) {
+      setError("两次输入的密码不一致");
+      return;
+    }
+
+    setIsBusy(true);
+    setError("");
+    try {
+      if (isSetup) {
+        await createAccount(username, password, 'admin');
+      }
+      onAuthenticated(await login(username, password));
+    } catch (err) {
+      const kind = err instanceof AuthError ? err.kind : undefined;
+      setError(
+        kind === 'weak_password' ? "密码至少需要 8 个字符" :
+        kind === 'username_taken' ? "用户名已存在" :
+        "访问被拒绝：凭证无效"
+      );
+      setPassword("");
+      setConfirmPassword("");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-center justify-center gap-2 bg-zinc-900/50 p-1.5 rounded-md border border-zinc-700 animate-in fade-in zoom-in-95 duration-200">
+      <div className="flex items-center text-zinc-500 px-2 border-r border-zinc-700 mr-1">
+        <LockClosedIcon className="w-3 h-3 mr-1.5" />
+        <span className="text-[10px] font-mono tracking-wider">{isSetup ? '创建管理员' : '登录'}</span>
+      </div>
+
+      <input
+        type="text"
+        placeholder="用户名"
+        className={inputClassName}
+        value={username}
+        onChange={e => setUsername(e.target.value)}
+        autoComplete="username"
+        autoFocus
+      />
+      <input
+        type="password"
+        placeholder="密码"
+        className={inputClassName}
+        value={password}
+        onChange={e => setPassword(e.target.value)}
+        autoComplete={isSetup ? "new-password" : "current-password"}
+      />
+      {isSetup && (
+        <input
+          type="password"
+          placeholder="确认密码"
+          className={inputClassName}
+          value={confirmPassword}
+          onChange={e => setConfirmPassword(e.target.value)}
+          autoComplete="new-password"
+        />
+      )}
+
+      <button
+        type="submit"
+        disabled={isBusy || !username.trim() || !password}
+        className="bg-zinc-100 hover:bg-white text-zinc-900 text-xs px-3 py-1.5 rounded font-bold font-mono transition-colors disabled:opacity-50"
+      >
+        {isBusy ? '验证中...' : isSetup ? '创建' : '登录'}
+      </button>
+
+      {error && (
+        <span className="text-red-500 text-[10px] font-mono px-1 animate-pulse">{error}</span>
+      )}
+
+      <button type="button" onClick={onCancel} className="text-zinc-500 hover:text-zinc-300 ml-1">
+        <XMarkIcon className="w-4 h-4" />
+      </button>
+    </form>
+  );
+};
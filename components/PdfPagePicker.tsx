@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { CheckIcon, DocumentIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { PdfThumbnail, usePdfDocument } from './PdfViewer';
+
+interface PdfPagePickerProps {
+  file: File;
+  // Currently selected 1-based pages; all pages when omitted
+  pages?: number[];
+  onConfirm: (pages: number[] | undefined) => void;
+  onClose: () => void;
+}
+
+// Lets the user choose which pages of an uploaded PDF go into the generation.
+export const PdfPagePicker: React.FC<PdfPagePickerProps> = ({ file, pages, onConfirm, onClose }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const { pdf, error } = usePdfDocument(src);
+  const [selected, setSelected] = useState<Set<number>>(new Set(pages));
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setSrc(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const pageCount: number = pdf?.numPages || 0;
+  const allPages = Array.from({ length: pageCount }, (_, i) => i + 1);
+
+  // No saved selection means every page, so start with all of them ticked
+  useEffect(() => {
+    if (pdf && !pages?.length) setSelected(new Set(allPages));
+  }, [pdf]);
+
+  const togglePage = (pageNumber: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(pageNumber)) {
+        next.delete(pageNumber);
+      } else {
+        next.add(pageNumber);
+      }
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    const chosen = allPages.filter(pageNumber => selected.has(pageNumber));
+    // Selecting everything is stored as "all pages" so the original PDF is sent as-is
+    onConfirm(chosen.length === pageCount ? undefined : chosen);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-3xl max-h-[85vh] flex flex-col bg-[#121214] border border-zinc-800 rounded-xl shadow-2xl p-6 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-300">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+
+        <div className="flex items-center gap-3 mb-4 pr-8">
+          <DocumentIcon className="w-5 h-5 text-blue-500 shrink-0" />
+          <div className="min-w-0">
+            <h2 className="text-base font-bold text-white truncate">{file.name}</h2>
+            <p className="text-zinc-500 text-xs">选择要发送给模型的页面，未选中的页面将被忽略。</p>
+          </div>
+        </div>
+
+        {error ? (
+          <p className="text-red-400 text-sm text-center py-12">{error}</p>
+        ) : !pdf ? (
+          <div className="flex justify-center py-12">
+            <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 overflow-y-auto grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-3 p-1">
+            {allPages.map(pageNumber => {
+              const isSelected = selected.has(pageNumber);
+              return (
+                <button
+                  key={pageNumber}
+                  onClick={() => togglePage(pageNumber)}
+                  className={`relative rounded-lg border-2 overflow-hidden transition-all ${isSelected ? 'border-blue-500' : 'border-zinc-800 opacity-50 hover:opacity-80'}`}
+                >
+                  <PdfThumbnail pdf={pdf} pageNumber={pageNumber} className="w-full h-auto block" />
+                  <span className="absolute bottom-1 left-1 px-1 rounded bg-black/70 text-[10px] font-mono text-zinc-300">{pageNumber}</span>
+                  {isSelected && (
+                    <span className="absolute top-1 right-1 p-0.5 rounded-full bg-blue-600 text-white">
+                      <CheckIcon className="w-3 h-3" />
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2 pt-4 mt-4 border-t border-zinc-800 text-xs">
+          <button onClick={() => setSelected(new Set(allPages))} className="text-zinc-400 hover:text-white">全选</button>
+          <button onClick={() => setSelected(new Set())} className="text-zinc-400 hover:text-white">全不选</button>
+          <span className="ml-auto font-mono text-zinc-500">已选 {selected.size}/{pageCount} 页</span>
+          <button
+            onClick={handleConfirm}
+            disabled={selected.size === 0}
+            className="bg-blue-600 hover:bg-blue-500 text-white font-medium px-4 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            确定
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
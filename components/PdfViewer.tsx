@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon, DocumentIcon, MagnifyingGlassMinusIcon, MagnifyingGlassPlusIcon } from '@heroicons/react/24/outline';
+import { loadPdfDocument, renderPdfPage } from '../services/pdf';
+
+interface PdfViewerProps {
+  // Data URL or object URL of the document
+  src: string;
+  // 1-based page numbers to show; all pages when omitted
+  pages?: number[];
+}
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.5, 2, 3];
+const THUMBNAIL_SCALE = 0.25;
+
+/** Small rendering of a single page, used by the viewer strip and the upload page picker. */
+export const PdfThumbnail = ({ pdf, pageNumber, className = '' }: { pdf: any, pageNumber: number, className?: string }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (canvasRef.current) {
+      renderPdfPage(pdf, pageNumber, canvasRef.current, THUMBNAIL_SCALE).catch(err => console.error("Error rendering PDF thumbnail:", err));
+    }
+  }, [pdf, pageNumber]);
+
+  return <canvas ref={canvasRef} className={`bg-white ${className}`} />;
+};
+
+/** Opens a document for rendering; `pdf` stays null until it has loaded. */
+export const usePdfDocument = (src: string | null) => {
+  const [pdf, setPdf] = useState<any>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPdf(null);
+    setError(null);
+    if (!src) return;
+    loadPdfDocument(src)
+      .then(doc => { if (!cancelled) setPdf(doc); })
+      .catch(err => {
+        console.error("Error loading PDF:", err);
+        if (!cancelled) setError("无法渲染 PDF 预览。");
+      });
+    return () => { cancelled = true; };
+  }, [src]);
+
+  return { pdf, error };
+};
+
+// Paginated viewer with page thumbnails, previous/next and zoom.
+export const PdfViewer: React.FC<PdfViewerProps> = ({ src, pages }) => {
+  const { pdf, error } = usePdfDocument(src);
+  const [index, setIndex] = useState(0);
+  const [zoomIndex, setZoomIndex] = useState(ZOOM_LEVELS.indexOf(1));
+  const [isRendering, setIsRendering] = useState(true);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const pageNumbers: number[] = pdf
+    ? pages?.length ? pages : Array.from({ length: pdf.numPages }, (_, i) => i + 1)
+    : [];
+  const pageNumber = pageNumbers[Math.min(index, pageNumbers.length - 1)];
+  const zoom = ZOOM_LEVELS[zoomIndex];
+
+  useEffect(() => {
+    setIndex(0);
+  }, [src, pages]);
+
+  useEffect(() => {
+    if (!pdf || !pageNumber || !canvasRef.current) return;
+    setIsRendering(true);
+    // Render sharper as the zoom grows, capped so huge pages don't exhaust memory
+    renderPdfPage(pdf, pageNumber, canvasRef.current, Math.min(2 * zoom, 4))
+      .catch(err => console.error("Error rendering PDF:", err))
+      .finally(() => setIsRendering(false));
+  }, [pdf, pageNumber, zoom]);
+
+  if (error) {
+    return (
+        <div className="flex flex-col items-center justify-center h-full text-zinc-500 p-6 text-center">
+            <DocumentIcon className="w-12 h-12 mb-3 opacity-50 text-red-400" />
+            <p className="text-sm mb-2 text-red-400/80">{error}</p>
+        </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full flex flex-col">
+        <div className="relative flex-1 min-h-0 overflow-auto flex">
+            {(!pdf || isRendering) && (
+                <div className="absolute inset-0 flex items-center justify-center z-10">
+                    <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+                </div>
+            )}
+            <canvas
+                ref={canvasRef}
+                style={zoom > 1 ? { width: `${zoom * 100}%` } : { maxWidth: `${zoom * 100}%`, maxHeight: `${zoom * 100}%` }}
+                className={`m-auto object-contain shadow-xl border border-zinc-800/50 rounded transition-opacity duration-300 ${!pdf || isRendering ? 'opacity-0' : 'opacity-100'}`}
+            />
+        </div>
+
+        {pageNumbers.length > 0 && (
+            <div className="shrink-0 pt-3 space-y-2">
+                <div className="flex items-center justify-center gap-2 text-xs font-mono text-zinc-400">
+                    <button onClick={() => setIndex(i => Math.max(0, i - 1))} disabled={index === 0} className="p-1 rounded hover:bg-zinc-800 disabled:opacity-30" title="上一页">
+                        <ChevronLeftIcon className="w-4 h-4" />
+                    </button>
+                    <span>第 {pageNumber} 页 · {index + 1}/{pageNumbers.length}</span>
+                    <button onClick={() => setIndex(i => Math.min(pageNumbers.length - 1, i + 1))} disabled={index >= pageNumbers.length - 1} className="p-1 rounded hover:bg-zinc-800 disabled:opacity-30" title="下一页">
+                        <ChevronRightIcon className="w-4 h-4" />
+                    </button>
+                    <span className="w-px h-4 bg-zinc-800 mx-1" />
+                    <button onClick={() => setZoomIndex(i => Math.max(0, i - 1))} disabled={zoomIndex === 0} className="p-1 rounded hover:bg-zinc-800 disabled:opacity-30" title="缩小">
+                        <MagnifyingGlassMinusIcon className="w-4 h-4" />
+                    </button>
+                    <span className="w-10 text-center">{Math.round(zoom * 100)}%</span>
+                    <button onClick={() => setZoomIndex(i => Math.min(ZOOM_LEVELS.length - 1, i + 1))} disabled={zoomIndex === ZOOM_LEVELS.length - 1} className="p-1 rounded hover:bg-zinc-800 disabled:opacity-30" title="放大">
+                        <MagnifyingGlassPlusIcon className="w-4 h-4" />
+                    </button>
+                </div>
+
+                {pageNumbers.length > 1 && (
+                    <div className="flex gap-2 overflow-x-auto pb-1 justify-center">
+                        {pageNumbers.map((number, i) => (
+                            <button
+                                key={number}
+                                onClick={() => setIndex(i)}
+                                className={`shrink-0 rounded border overflow-hidden transition-colors ${i === index ? 'border-blue-500' : 'border-zinc-800 opacity-60 hover:opacity-100'}`}
+                                title={`第 ${number} 页`}
+                            >
+                                <PdfThumbnail pdf={pdf} pageNumber={number} className="h-14 w-auto block" />
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+        )}
+    </div>
+  );
+};
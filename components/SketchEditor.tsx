@@ -0,0 +1,356 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ArrowUturnLeftIcon,
+  ArrowUturnRightIcon,
+  BackspaceIcon,
+  ChevronDownIcon,
+  ChevronUpIcon,
+  EyeIcon,
+  EyeSlashIcon,
+  LanguageIcon,
+  MinusIcon,
+  PencilIcon,
+  PencilSquareIcon,
+  PlusIcon,
+  RectangleStackIcon,
+  StopIcon,
+  TrashIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { Sketch, SketchLayer, SketchPoint, SketchShape, SketchTool, createLayer, createSketch, renderSketch } from '../services/sketch';
+
+interface SketchEditorProps {
+  // Sketch to continue editing; a blank canvas when omitted
+  sketch?: Sketch;
+  confirmLabel?: string;
+  onConfirm: (sketch: Sketch) => void;
+  onClose: () => void;
+}
+
+const TOOLS: { tool: SketchTool, label: string, icon: React.ReactNode }[] = [
+  { tool: 'pen', label: '画笔', icon: <PencilIcon className="w-4 h-4" /> },
+  { tool: 'line', label: '直线', icon: <MinusIcon className="w-4 h-4" /> },
+  { tool: 'rect', label: '矩形', icon: <StopIcon className="w-4 h-4" /> },
+  { tool: 'ellipse', label: '椭圆', icon: <span className="block w-3.5 h-3.5 rounded-full border-[1.5px] border-current" /> },
+  { tool: 'text', label: '文字', icon: <LanguageIcon className="w-4 h-4" /> },
+  { tool: 'eraser', label: '橡皮擦', icon: <BackspaceIcon className="w-4 h-4" /> },
+];
+
+const COLORS = ['#18181b', '#ef4444', '#f59e0b', '#22c55e', '#3b82f6', '#a855f7'];
+const WIDTHS = [2, 4, 8, 16];
+// Text size follows the stroke width so one control covers both
+const textSizeFor = (width: number) => 12 + width * 3;
+const ERASER_SCALE = 4;
+
+// Undo history holds whole layer stacks; sketches are small enough for that to be cheap
+interface HistoryState {
+  past: SketchLayer[][];
+  present: SketchLayer[];
+  future: SketchLayer[][];
+}
+
+// Drawing surface for napkin-style sketches, with shapes, text, layers and undo.
+export const SketchEditor: React.FC<SketchEditorProps> = ({ sketch, confirmLabel = '使用草图', onConfirm, onClose }) => {
+  const initial = useRef(sketch || createSketch()).current;
+  const [history, setHistory] = useState<HistoryState>({ past: [], present: initial.layers, future: [] });
+  const layers = history.present;
+  const [activeLayerId, setActiveLayerId] = useState(initial.layers[initial.layers.length - 1].id);
+  const [tool, setTool] = useState<SketchTool>('pen');
+  const [color, setColor] = useState(COLORS[0]);
+  const [width, setWidth] = useState(WIDTHS[1]);
+  const [draft, setDraft] = useState<SketchShape | null>(null);
+  // Where a text box is open, in sketch coordinates
+  const [textAt, setTextAt] = useState<SketchPoint | null>(null);
+  const [textValue, setTextValue] = useState('');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const activeLayer = layers.find(layer => layer.id === activeLayerId) || layers[layers.length - 1];
+  const currentSketch: Sketch = { width: initial.width, height: initial.height, layers };
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    renderSketch(currentSketch, canvasRef.current, draft ? { shape: draft, layerId: activeLayer.id } : undefined);
+  }, [layers, draft, activeLayer.id]);
+
+  const commit = (next: SketchLayer[]) => {
+    setHistory(prev => ({ past: [...prev.past, prev.present], present: next, future: [] }));
+  };
+
+  const undo = () => {
+    setHistory(prev => prev.past.length ? {
+      past: prev.past.slice(0, -1),
+      present: prev.past[prev.past.length - 1],
+      future: [prev.present, ...prev.future],
+    } : prev);
+  };
+
+  const redo = () => {
+    setHistory(prev => prev.future.length ? {
+      past: [...prev.past, prev.present],
+      present: prev.future[0],
+      future: prev.future.slice(1),
+    } : prev);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const updateLayer = (id: string, changes: Partial<SketchLayer>) => {
+    commit(layers.map(layer => layer.id === id ? { ...layer, ...changes } : layer));
+  };
+
+  const addShape = (shape: SketchShape) => {
+    updateLayer(activeLayer.id, { shapes: [...activeLayer.shapes, shape] });
+  };
+
+  // The canvas is scaled to fit the modal, so map pointer positions back to sketch pixels
+  const toSketchPoint = (e: React.PointerEvent | React.MouseEvent): SketchPoint => {
+    const bounds = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: Math.round((e.clientX - bounds.left) / bounds.width * initial.width),
+      y: Math.round((e.clientY - bounds.top) / bounds.height * initial.height),
+    };
+  };
+
+  const commitText = () => {
+    if (textAt && textValue.trim()) {
+      addShape({ type: 'text', at: textAt, text: textValue, color, size: textSizeFor(width) });
+    }
+    setTextAt(null);
+    setTextValue('');
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
+    const point = toSketchPoint(e);
+    if (tool === 'text') {
+      // Clicking away from an open text box places it; the next click starts a new one
+      if (textAt) {
+        commitText();
+      } else {
+        setTextAt(point);
+      }
+      return;
+    }
+    if (!activeLayer.visible) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (tool === 'pen' || tool === 'eraser') {
+      setDraft({ type: 'stroke', points: [point], color, width: tool === 'eraser' ? width * ERASER_SCALE : width, erase: tool === 'eraser' || undefined });
+    } else {
+      setDraft({ type: tool, from: point, to: point, color, width });
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return;
+    const point = toSketchPoint(e);
+    if (draft.type === 'stroke') {
+      setDraft({ ...draft, points: [...draft.points, point] });
+    } else if (draft.type !== 'text') {
+      setDraft({ ...draft, to: point });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (draft) addShape(draft);
+    setDraft(null);
+  };
+
+  const handleAddLayer = () => {
+    const layer = createLayer(`图层 ${layers.length + 1}`);
+    const index = layers.indexOf(activeLayer) + 1;
+    commit([...layers.slice(0, index), layer, ...layers.slice(index)]);
+    setActiveLayerId(layer.id);
+  };
+
+  const handleDeleteLayer = (id: string) => {
+    if (layers.length <= 1) return;
+    const remaining = layers.filter(layer => layer.id !== id);
+    commit(remaining);
+    if (id === activeLayer.id) setActiveLayerId(remaining[remaining.length - 1].id);
+  };
+
+  // `direction` is +1 to move towards the top of the stack
+  const handleMoveLayer = (id: string, direction: number) => {
+    const index = layers.findIndex(layer => layer.id === id);
+    const target = index + direction;
+    if (target < 0 || target >= layers.length) return;
+    const next = [...layers];
+    [next[index], next[target]] = [next[target], next[index]];
+    commit(next);
+  };
+
+  const isEmpty = layers.every(layer => layer.shapes.length === 0);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-6xl max-h-[92vh] flex flex-col bg-[#121214] border border-zinc-800 rounded-xl shadow-2xl p-5 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-300">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+
+        <div className="flex items-center gap-3 mb-4 pr-8">
+          <PencilSquareIcon className="w-5 h-5 text-blue-500 shrink-0" />
+          <div>
+            <h2 className="text-base font-bold text-white">手绘草图</h2>
+            <p className="text-zinc-500 text-xs">画出界面或流程的大致样子，草图会以图片形式发送，并随作品保存以便之后修改。</p>
+          </div>
+        </div>
+
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-3 mb-3 text-zinc-400">
+          <div className="flex items-center gap-1 bg-zinc-900 border border-zinc-800 rounded-lg p-1">
+            {TOOLS.map(item => (
+              <button
+                key={item.tool}
+                onClick={() => setTool(item.tool)}
+                title={item.label}
+                className={`w-8 h-8 flex items-center justify-center rounded-md transition-colors ${tool === item.tool ? 'bg-blue-600 text-white' : 'hover:bg-zinc-800 hover:text-white'}`}
+              >
+                {item.icon}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-1.5">
+            {COLORS.map(value => (
+              <button
+                key={value}
+                onClick={() => setColor(value)}
+                title={value}
+                style={{ backgroundColor: value }}
+                className={`w-5 h-5 rounded-full border-2 ${color === value ? 'border-white' : 'border-zinc-700'}`}
+              />
+            ))}
+            <input type="color" value={color} onChange={(e) => setColor(e.target.value)} title="自定义颜色" className="w-6 h-6 bg-transparent cursor-pointer" />
+          </div>
+
+          <div className="flex items-center gap-1 bg-zinc-900 border border-zinc-800 rounded-lg p-1">
+            {WIDTHS.map(value => (
+              <button
+                key={value}
+                onClick={() => setWidth(value)}
+                title={`粗细 ${value}`}
+                className={`w-8 h-8 flex items-center justify-center rounded-md ${width === value ? 'bg-zinc-700' : 'hover:bg-zinc-800'}`}
+              >
+                <span className="block rounded-full bg-zinc-200" style={{ width: Math.min(value, 14), height: Math.min(value, 14) }} />
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-1">
+            <button onClick={undo} disabled={!history.past.length} title="撤销 (Ctrl+Z)" className="p-2 rounded-md hover:bg-zinc-800 hover:text-white disabled:opacity-30">
+              <ArrowUturnLeftIcon className="w-4 h-4" />
+            </button>
+            <button onClick={redo} disabled={!history.future.length} title="重做 (Ctrl+Shift+Z)" className="p-2 rounded-md hover:bg-zinc-800 hover:text-white disabled:opacity-30">
+              <ArrowUturnRightIcon className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 flex gap-4">
+          <div className="relative flex-1 min-w-0 flex items-center justify-center">
+            <div className="relative">
+              <canvas
+                ref={canvasRef}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                className={`block max-w-full max-h-[65vh] rounded border border-zinc-700 touch-none ${tool === 'text' ? 'cursor-text' : 'cursor-crosshair'}`}
+              />
+              {textAt && (
+                <input
+                  autoFocus
+                  value={textValue}
+                  onChange={(e) => setTextValue(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitText();
+                    if (e.key === 'Escape') {
+                      setTextAt(null);
+                      setTextValue('');
+                    }
+                  }}
+                  placeholder="输入文字，回车确认"
+                  style={{ left: `${textAt.x / initial.width * 100}%`, top: `${textAt.y / initial.height * 100}%`, color }}
+                  className="absolute min-w-[10rem] bg-white/90 border border-blue-500 rounded px-1 py-0.5 text-sm focus:outline-none"
+                />
+              )}
+            </div>
+          </div>
+
+          {/* Layers, top of the stack first */}
+          <div className="w-48 shrink-0 flex flex-col bg-zinc-900/60 border border-zinc-800 rounded-lg p-2 text-xs">
+            <div className="flex items-center justify-between mb-2 text-zinc-400">
+              <span className="flex items-center gap-1.5 font-medium"><RectangleStackIcon className="w-4 h-4" /> 图层</span>
+              <button onClick={handleAddLayer} title="新建图层" className="p-1 rounded hover:bg-zinc-800 hover:text-white">
+                <PlusIcon className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto space-y-1">
+              {[...layers].reverse().map(layer => (
+                <div
+                  key={layer.id}
+                  onClick={() => setActiveLayerId(layer.id)}
+                  className={`group/layer flex items-center gap-1 px-2 py-1.5 rounded cursor-pointer ${layer.id === activeLayer.id ? 'bg-blue-600/20 text-white border border-blue-500/40' : 'text-zinc-400 hover:bg-zinc-800 border border-transparent'}`}
+                >
+                  <button
+                    onClick={(e) => { e.stopPropagation(); updateLayer(layer.id, { visible: !layer.visible }); }}
+                    title={layer.visible ? "隐藏" : "显示"}
+                    className="p-0.5 hover:text-white"
+                  >
+                    {layer.visible ? <EyeIcon className="w-3.5 h-3.5" /> : <EyeSlashIcon className="w-3.5 h-3.5 opacity-50" />}
+                  </button>
+                  <span className="flex-1 truncate">{layer.name}</span>
+                  <div className="flex items-center opacity-0 group-hover/layer:opacity-100">
+                    <button onClick={(e) => { e.stopPropagation(); handleMoveLayer(layer.id, 1); }} title="上移" className="p-0.5 hover:text-white">
+                      <ChevronUpIcon className="w-3 h-3" />
+                    </button>
+                    <button onClick={(e) => { e.stopPropagation(); handleMoveLayer(layer.id, -1); }} title="下移" className="p-0.5 hover:text-white">
+                      <ChevronDownIcon className="w-3 h-3" />
+                    </button>
+                    {layers.length > 1 && (
+                      <button onClick={(e) => { e.stopPropagation(); handleDeleteLayer(layer.id); }} title="删除图层" className="p-0.5 hover:text-red-400">
+                        <TrashIcon className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+            {!activeLayer.visible && <p className="mt-2 text-amber-400/80">当前图层已隐藏，无法绘制。</p>}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 pt-4 mt-4 border-t border-zinc-800 text-xs">
+          <span className="text-zinc-500">隐藏的图层不会包含在导出的图片中。</span>
+          <button onClick={onClose} className="ml-auto text-zinc-400 hover:text-white px-3 py-2">取消</button>
+          <button
+            onClick={() => onConfirm(currentSketch)}
+            disabled={isEmpty}
+            className="bg-blue-600 hover:bg-blue-500 text-white font-medium px-4 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect } from 'react';
+import { ExclamationTriangleIcon, InformationCircleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+export interface StatusNotice {
+  id: number;
+  tone: 'error' | 'info';
+  title: string;
+  message?: string;
+  actionLabel?: string;
+  onAction?: () => void;
+}
+
+interface StatusToastProps {
+  notice: StatusNotice | null;
+  onDismiss: () => void;
+}
+
+const AUTO_DISMISS_MS = 8000;
+
+// Non-blocking replacement for alert(); shows one notice at a time in the bottom-left corner.
+export const StatusToast: React.FC<StatusToastProps> = ({ notice, onDismiss }) => {
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(onDismiss, AUTO_DISMISS_MS);
+    return () => clearTimeout(timer);
+  }, [notice, onDismiss]);
+
+  if (!notice) return null;
+
+  const isError = notice.tone === 'error';
+
+  return (
+    <div
+      key={notice.id}
+      role={isError ? 'alert' : 'status'}
+      className={`
+        fixed bottom-4 left-4 z-[70] w-[calc(100%-2rem)] max-w-sm flex items-start gap-3 p-4 rounded-xl border shadow-2xl backdrop-blur-md
+        animate-in fade-in slide-in-from-bottom-4 duration-300
+        ${isError ? 'bg-red-950/80 border-red-500/30' : 'bg-zinc-900/90 border-zinc-700'}
+      `}
+    >
+      {isError ? (
+        <ExclamationTriangleIcon className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+      ) : (
+        <InformationCircleIcon className="w-5 h-5 text-blue-400 shrink-0 mt-0.5" />
+      )}
+      <div className="flex-1 min-w-0">
+        <p className={`text-sm font-medium ${isError ? 'text-red-200' : 'text-zinc-100'}`}>{notice.title}</p>
+        {notice.message && (
+          <p className="text-xs text-zinc-400 mt-1 leading-relaxed">{notice.message}</p>
+        )}
+        {notice.actionLabel && notice.onAction && (
+          <button
+            onClick={() => { notice.onAction?.(); onDismiss(); }}
+            className="mt-2 text-xs font-bold text-blue-400 hover:text-blue-300 transition-colors"
+          >
+            {notice.actionLabel}
+          </button>
+        )}
+      </div>
+      <button onClick={onDismiss} className="text-zinc-500 hover:text-zinc-300 shrink-0" title="关闭">
+        <XMarkIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { TrashIcon, UserPlusIcon, UsersIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { AuthError, AuthUser, Role, ROLE_LABELS, createAccount, listAccounts, removeAccount, updateAccountRole } from '../services/auth';
+
+interface UserAdminModalProps {
+  isOpen: boolean;
+  currentUser: AuthUser | null;
+  onClose: () => void;
+}
+
+const ROLES = Object.keys(ROLE_LABELS) as Role[];
+
+const describeError = (err: unknown) => {
+  const kind = err instanceof AuthError ? err.kind : undefined;
+  switch (kind) {
+    case 'username_taken': return "用户名已存在";
+    case 'weak_password': return "密码至少需要 8 个字符";
+    case 'last_admin': return "至少需要保留一个管理员";
+    default: return "操作失败";
+  }
+};
+
+export const UserAdminModal: React.FC<UserAdminModalProps> = ({ isOpen, currentUser, onClose }) => {
+  const [accounts, setAccounts] = useState<AuthUser[]>([]);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<Role>('editor');
+  const [error, setError] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setAccounts(listAccounts());
+      setError("");
+    }
+  }, [isOpen]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError("");
+    try {
+      await createAccount(username, password, role);
+      setAccounts(listAccounts());
+      setUsername("");
+      setPassword("");
+    } catch (err) {
+      setError(describeError(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRoleChange = (id: string, newRole: Role) => {
+    try {
+      updateAccountRole(id, newRole);
+      setAccounts(listAccounts());
+      setError("");
+    } catch (err) {
+      setError(describeError(err));
+    }
+  };
+
+  const handleRemove = (account: AuthUser) => {
+    if (!window.confirm(`确定要删除用户 "${account.username}" 吗？`)) return;
+    try {
+      removeAccount(account.id);
+      setAccounts(listAccounts());
+      setError("");
+    } catch (err) {
+      setError(describeError(err));
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-lg bg-[#121214] border border-zinc-800 rounded-xl shadow-2xl p-6 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-300"
+        >
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+
+        <div className="flex flex-col items-center mb-6">
+          <div className="w-12 h-12 rounded-full bg-blue-500/10 flex items-center justify-center mb-4 border border-blue-500/20">
+            <UsersIcon className="w-6 h-6 text-blue-500" />
+          </div>
+          <h2 className="text-xl font-bold text-white">用户管理</h2>
+          <p className="text-zinc-400 text-sm mt-2 text-center">
+            账号仅保存在此浏览器中，密码经过加盐慢哈希处理。
+          </p>
+        </div>
+
+        <div className="space-y-2 max-h-64 overflow-y-auto mb-6">
+          {accounts.map(account => (
+            <div key={account.id} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-black border border-zinc-800">
+              <span className="flex-1 text-sm font-mono text-zinc-200 truncate">
+                {account.username}
+                {account.id === currentUser?.id && <span className="ml-2 text-[10px] text-zinc-500">(当前)</span>}
+              </span>
+              <select
+                value={account.role}
+                onChange={(e) => handleRoleChange(account.id, e.target.value as Role)}
+                className="bg-zinc-900 border border-zinc-700 text-zinc-300 text-xs rounded px-2 py-1 focus:outline-none"
+              >
+                {ROLES.map(item => <option key={item} value={item}>{ROLE_LABELS[item]}</option>)}
+              </select>
+              <button
+                onClick={() => handleRemove(account)}
+                disabled={account.id === currentUser?.id}
+                className="p-1.5 text-zinc-500 hover:text-red-400 disabled:opacity-30 disabled:pointer-events-none"
+                title="删除用户"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAdd} className="pt-4 border-t border-zinc-800 space-y-3">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="用户名"
+              autoComplete="off"
+              className="flex-1 min-w-0 bg-black border border-zinc-700 text-white px-3 py-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="初始密码"
+              autoComplete="new-password"
+              className="flex-1 min-w-0 bg-black border border-zinc-700 text-white px-3 py-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as Role)}
+              className="bg-black border border-zinc-700 text-zinc-300 text-sm rounded-lg px-2 focus:outline-none"
+            >
+              {ROLES.map(item => <option key={item} value={item}>{ROLE_LABELS[item]}</option>)}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={isBusy || !username.trim() || !password}
+            className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 text-white font-medium py-2.5 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <UserPlusIcon className="w-4 h-4" />
+            {isBusy ? '创建中...' : '添加用户'}
+          </button>
+          {error && <p className="text-red-400 text-xs text-center">{error}</p>}
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { AdjustmentsHorizontalIcon, ArrowPathRoundedSquareIcon, ArrowsPointingInIcon, ArrowsPointingOutIcon, ComputerDesktopIcon, DevicePhoneMobileIcon, DeviceTabletIcon, Squares2X2Icon } from '@heroicons/react/24/outline';
+import {
+  MAX_VIEWPORT_SIZE,
+  MIN_VIEWPORT_SIZE,
+  VIEWPORT_LABELS,
+  VIEWPORT_PRESETS,
+  ViewportPreset,
+  ViewportSettings,
+  clampViewportSize,
+} from '../services/viewports';
+
+interface ViewportMenuProps {
+  settings: ViewportSettings;
+  onChange: (changes: Partial<ViewportSettings>) => void;
+}
+
+const PRESET_ICONS: Record<ViewportPreset, React.ComponentType<React.SVGProps<SVGSVGElement>>> = {
+  fill: ArrowsPointingOutIcon,
+  phone: DevicePhoneMobileIcon,
+  tablet: DeviceTabletIcon,
+  desktop: ComputerDesktopIcon,
+  custom: AdjustmentsHorizontalIcon,
+};
+
+// Header dropdown for the preview's viewport: device presets, custom size,
+// rotation, zoom-to-fit and the side-by-side comparison of several devices.
+export const ViewportMenu: React.FC<ViewportMenuProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [customWidth, setCustomWidth] = useState(String(settings.custom.width));
+  const [customHeight, setCustomHeight] = useState(String(settings.custom.height));
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  // Typed sizes are applied once complete, clamped to something a frame can show
+  const commitCustomSize = () => {
+    const custom = { width: clampViewportSize(Number(customWidth)), height: clampViewportSize(Number(customHeight)) };
+    setCustomWidth(String(custom.width));
+    setCustomHeight(String(custom.height));
+    onChange({ custom });
+  };
+
+  const TriggerIcon = settings.sideBySide ? Squares2X2Icon : PRESET_ICONS[settings.preset];
+  const isDevice = settings.sideBySide || settings.preset !== 'fill';
+
+  const toggleClass = (active: boolean) =>
+    `flex-1 flex flex-col items-center gap-1 px-2 py-1.5 rounded-md border text-[10px] transition-colors disabled:opacity-40 disabled:pointer-events-none ${active ? 'border-blue-500/50 bg-blue-500/10 text-blue-400' : 'border-zinc-800 text-zinc-400 hover:text-zinc-200 hover:border-zinc-600'}`;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title={`视口：${settings.sideBySide ? '多视口并排' : VIEWPORT_LABELS[settings.preset]}`}
+        className={`p-1.5 rounded-md transition-colors ${isOpen || isDevice ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+      >
+        <TriggerIcon className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 z-50 bg-[#121214] border border-zinc-800 rounded-lg shadow-2xl p-2 animate-in fade-in zoom-in-95 duration-150">
+          <div className="space-y-0.5">
+            {(Object.keys(VIEWPORT_LABELS) as ViewportPreset[]).map(preset => {
+              const Icon = PRESET_ICONS[preset];
+              const size = preset === 'fill' ? null : preset === 'custom' ? settings.custom : VIEWPORT_PRESETS[preset];
+              const active = !settings.sideBySide && settings.preset === preset;
+              return (
+                <button
+                  key={preset}
+                  onClick={() => onChange({ preset, sideBySide: false })}
+                  className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left transition-colors ${active ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-400 hover:bg-zinc-800/60 hover:text-zinc-200'}`}
+                >
+                  <Icon className="w-4 h-4 shrink-0" />
+                  <span className="flex-1 text-xs">{VIEWPORT_LABELS[preset]}</span>
+                  {size && <span className="text-[10px] font-mono text-zinc-500">{size.width}×{size.height}</span>}
+                </button>
+              );
+            })}
+          </div>
+
+          {settings.preset === 'custom' && !settings.sideBySide && (
+            <div className="flex items-center gap-1.5 px-2 pt-2 text-[11px] font-mono text-zinc-500">
+              <input
+                type="number"
+                min={MIN_VIEWPORT_SIZE}
+                max={MAX_VIEWPORT_SIZE}
+                value={customWidth}
+                onChange={e => setCustomWidth(e.target.value)}
+                onBlur={commitCustomSize}
+                onKeyDown={e => e.key === 'Enter' && commitCustomSize()}
+                aria-label="宽度"
+                className="w-0 flex-1 rounded bg-zinc-900 border border-zinc-800 px-2 py-1 text-zinc-200 focus:outline-none focus:border-blue-500"
+              />
+              ×
+              <input
+                type="number"
+                min={MIN_VIEWPORT_SIZE}
+                max={MAX_VIEWPORT_SIZE}
+                value={customHeight}
+                onChange={e => setCustomHeight(e.target.value)}
+                onBlur={commitCustomSize}
+                onKeyDown={e => e.key === 'Enter' && commitCustomSize()}
+                aria-label="高度"
+                className="w-0 flex-1 rounded bg-zinc-900 border border-zinc-800 px-2 py-1 text-zinc-200 focus:outline-none focus:border-blue-500"
+              />
+            </div>
+          )}
+
+          <div className="flex gap-1.5 mt-2 pt-2 border-t border-zinc-800">
+            <button onClick={() => onChange({ rotated: !settings.rotated })} disabled={!isDevice} className={toggleClass(settings.rotated)}>
+              <ArrowPathRoundedSquareIcon className="w-4 h-4" />
+              旋转
+            </button>
+            <button onClick={() => onChange({ fitToPanel: !settings.fitToPanel })} disabled={!isDevice} className={toggleClass(settings.fitToPanel)}>
+              <ArrowsPointingInIcon className="w-4 h-4" />
+              缩放以适应
+            </button>
+            <button onClick={() => onChange({ sideBySide: !settings.sideBySide })} className={toggleClass(settings.sideBySide)}>
+              <Squares2X2Icon className="w-4 h-4" />
+              多视口并排
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { base64ToBytes, bytesToBase64 } from './encoding';
+
+const ACCOUNTS_KEY = 'local_accounts';
+const SESSION_KEY = 'auth_session';
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600_000;
+const SESSION_DURATION_MS = 12 * 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+
+export type Role = 'viewer' | 'editor' | 'admin';
+export type Permission = 'edit' | 'export' | 'delete' | 'manageUsers';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: '访客',
+  editor: '编辑者',
+  admin: '管理员',
+};
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  editor: ['edit', 'export'],
+  admin: ['edit', 'export', 'delete', 'manageUsers'],
+};
+
+interface Account {
+  id: string;
+  username: string;
+  role: Role;
+  salt: string; // base64
+  hash: string; // base64
+  iterations: number;
+  createdAt: string;
+}
+
+interface Session {
+  userId: string;
+  expiresAt: number;
+}
+
+export type AuthUser = Pick<Account, 'id' | 'username' | 'role'>;
+
+export type AuthErrorKind = 'invalid_credentials' | 'username_taken' | 'weak_password' | 'last_admin' | 'not_found';
+
+export class AuthError extends Error {
+  readonly kind: AuthErrorKind;
+
+  constructor(kind: AuthErrorKind, message?: string) {
+    super(message || kind);
+    this.name = 'AuthError';
+    this.kind = kind;
+  }
+}
+
+const hashPassword = async (password: string, salt: BufferSource, iterations: number): Promise<string> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 256);
+  return bytesToBase64(bits);
+};
+
+// Compares without bailing out at the first differing character
+const constantTimeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+const loadAccounts = (): Account[] => {
+  try {
+    return JSON.parse(localStorage.getItem(ACCOUNTS_KEY) || '[]');
+  } catch (e) {
+    console.error("Failed to load accounts", e);
+    return [];
+  }
+};
+
+const saveAccounts = (accounts: Account[]) => {
+  localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+};
+
+const toUser = ({ id, username, role }: Account): AuthUser => ({ id, username, role });
+
+const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+export const hasPermission = (user: AuthUser | null, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[user?.role || 'viewer'].includes(permission);
+
+export const hasAccounts = (): boolean => loadAccounts().length > 0;
+
+export const listAccounts = (): AuthUser[] => loadAccounts().map(toUser);
+
+/**
+ * Creates a local account. The very first account is always an admin, so a
+ * fresh install can bootstrap itself without any hardcoded credentials.
+ */
+export const createAccount = async (username: string, password: string, role: Role): Promise<AuthUser> => {
+  const accounts = loadAccounts();
+  const name = normalizeUsername(username);
+  if (accounts.some(account => account.username === name)) {
+    throw new AuthError('username_taken');
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError('weak_password', `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const account: Account = {
+    id: crypto.randomUUID(),
+    username: name,
+    role: accounts.length === 0 ? 'admin' : role,
+    salt: bytesToBase64(salt),
+    hash: await hashPassword(password, salt, PBKDF2_ITERATIONS),
+    iterations: PBKDF2_ITERATIONS,
+    createdAt: new Date().toISOString(),
+  };
+  saveAccounts([...accounts, account]);
+  return toUser(account);
+};
+
+const assertAdminRemains = (accounts: Account[]) => {
+  if (!accounts.some(account => account.role === 'admin')) {
+    throw new AuthError('last_admin');
+  }
+};
+
+export const removeAccount = (id: string) => {
+  const remaining = loadAccounts().filter(account => account.id !== id);
+  assertAdminRemains(remaining);
+  saveAccounts(remaining);
+};
+
+export const updateAccountRole = (id: string, role: Role) => {
+  const accounts = loadAccounts();
+  if (!accounts.some(account => account.id === id)) throw new AuthError('not_found');
+  const updated = accounts.map(account => account.id === id ? { ...account, role } : account);
+  assertAdminRemains(updated);
+  saveAccounts(updated);
+};
+
+/** Verifies the credentials and starts a session that survives reloads until it expires. */
+export const login = async (username: string, password: string): Promise<AuthUser> => {
+  const account = loadAccounts().find(item => item.username === normalizeUsername(username));
+  // Hash even for unknown users so response time doesn't reveal which usernames exist
+  const salt = account ? base64ToBytes(account.salt) : crypto.getRandomValues(new Uint8Array(16));
+  const hash = await hashPassword(password, salt, account?.iterations || PBKDF2_ITERATIONS);
+
+  if (!account || !constantTimeEqual(hash, account.hash)) {
+    throw new AuthError('invalid_credentials');
+  }
+
+  const session: Session = { userId: account.id, expiresAt: Date.now() + SESSION_DURATION_MS };
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  return toUser(account);
+};
+
+export const logout = () => {
+  localStorage.removeItem(SESSION_KEY);
+};
+
+const loadSession = (): Session | null => {
+  try {
+    const session: Session | null = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+    if (!session || session.expiresAt <= Date.now()) {
+      logout();
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+};
+
+/** The logged-in user, or null when there is no session or it has expired. */
+export const getSessionUser = (): AuthUser | null => {
+  const session = loadSession();
+  const account = session && loadAccounts().find(item => item.id === session.userId);
+  return account ? toUser(account) : null;
+};
+
+export const getSessionExpiry = (): number | null => loadSession()?.expiresAt ?? null;
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+/**
+ * Line-level diff between two texts (LCS based). Common prefix and suffix are
+ * trimmed first so the quadratic part only covers the region that changed,
+ * which for typical model edits is a small fraction of the document.
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  // lcs[i * (m + 1) + j] = length of the LCS of midA[i..] and midB[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  for (let k = 0; k < start; k++) {
+    result.push({ type: 'same', text: a[k], oldLine: k + 1, newLine: k + 1 });
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && midA[i] === midB[j]) {
+      result.push({ type: 'same', text: midA[i], oldLine: start + i + 1, newLine: start + j + 1 });
+      i++;
+      j++;
+    } else if (i < n && (j >= m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+      result.push({ type: 'removed', text: midA[i], oldLine: start + i + 1 });
+      i++;
+    } else {
+      result.push({ type: 'added', text: midB[j], newLine: start + j + 1 });
+      j++;
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) {
+    result.push({ type: 'same', text: a[endA + k], oldLine: endA + k + 1, newLine: endB + k + 1 });
+  }
+
+  return result;
+};
+
+export const getDiffStats = (diff: DiffLine[]): DiffStats => ({
+  added: diff.filter(line => line.type === 'added').length,
+  removed: diff.filter(line => line.type === 'removed').length,
+});
@@ -0,0 +1,258 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { dataUrlToBytes } from './encoding';
+
+export type DocumentKind = 'csv' | 'xlsx' | 'json' | 'markdown' | 'text' | 'docx';
+
+export const DOCUMENT_KIND_LABELS: Record<DocumentKind, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel',
+  json: 'JSON',
+  markdown: 'Markdown',
+  text: '文本',
+  docx: 'Word',
+};
+
+// Extensions win over MIME types: browsers report CSV as text/plain or
+// application/vnd.ms-excel depending on the OS
+const EXTENSION_KINDS: Record<string, DocumentKind> = {
+  csv: 'csv',
+  tsv: 'csv',
+  xlsx: 'xlsx',
+  xls: 'xlsx',
+  json: 'json',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  docx: 'docx',
+};
+
+const MIME_KINDS: Record<string, DocumentKind> = {
+  'text/csv': 'csv',
+  'text/tab-separated-values': 'csv',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/json': 'json',
+  'text/markdown': 'markdown',
+  'text/plain': 'text',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+};
+
+/** Accept list for file inputs, matching what getDocumentKind recognises. */
+export const DOCUMENT_ACCEPT = Object.keys(EXTENSION_KINDS).map(extension => `.${extension}`).join(',');
+
+export const getDocumentKind = (name: string, mimeType = ''): DocumentKind | null => {
+  const extension = name.match(/\.([^.]+)$/)?.[1]?.toLowerCase();
+  return (extension && EXTENSION_KINDS[extension]) || MIME_KINDS[mimeType.toLowerCase()] || null;
+};
+
+export const isDocumentFile = (file: File) => getDocumentKind(file.name, file.type) !== null;
+
+export type DocumentErrorKind = 'parse_failed' | 'library_unavailable';
+
+export class DocumentError extends Error {
+  readonly kind: DocumentErrorKind;
+  readonly fileName: string;
+  readonly cause?: unknown;
+
+  constructor(kind: DocumentErrorKind, fileName: string, options: { cause?: unknown } = {}) {
+    super(`${kind}: ${fileName}`);
+    this.name = 'DocumentError';
+    this.kind = kind;
+    this.fileName = fileName;
+    this.cause = options.cause;
+  }
+}
+
+export interface DataTable {
+  // Sheet name for workbooks, the file name otherwise
+  name: string;
+  columns: string[];
+  rows: string[][];
+}
+
+export type ParsedDocument =
+  | { kind: 'csv' | 'xlsx'; tables: DataTable[] }
+  | { kind: 'json'; value: unknown }
+  | { kind: 'markdown' | 'text'; text: string }
+  | { kind: 'docx'; html: string };
+
+// Spreadsheet and Word parsers are large, so they are split into their own chunks and loaded on first use
+const loadLibrary = async <T>(load: () => Promise<T>, fileName: string): Promise<T> => {
+  try {
+    return await load();
+  } catch (error) {
+    throw new DocumentError('library_unavailable', fileName, { cause: error });
+  }
+};
+
+/** RFC 4180 CSV: quoted fields may contain delimiters, doubled quotes and newlines. */
+const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+// The first row is taken as the header
+const toTable = (name: string, rows: string[][]): DataTable => {
+  const [header = [], ...body] = rows;
+  // A loop rather than spreading into Math.max, which overflows the stack on large sheets
+  const width = body.reduce((max, row) => Math.max(max, row.length), header.length);
+  const columns = Array.from({ length: width }, (_, i) => header[i]?.trim() || `列 ${i + 1}`);
+  return { name, columns, rows: body.map(row => columns.map((_, i) => row[i] ?? '')) };
+};
+
+/** Parses a stored document input (name plus data URL) according to its kind. */
+export const parseDocument = async (name: string, dataUrl: string): Promise<ParsedDocument> => {
+  const mimeType = dataUrl.match(/^data:([^;,]+)/)?.[1] || '';
+  const kind = getDocumentKind(name, mimeType);
+  const bytes = dataUrlToBytes(dataUrl);
+
+  try {
+    switch (kind) {
+      case 'csv': {
+        const text = new TextDecoder().decode(bytes);
+        const firstLine = text.split(/\r?\n/, 1)[0];
+        // TSV files and Excel exports in some locales use tabs or semicolons
+        const delimiter = /\.tsv$/i.test(name) || firstLine.split('\t').length > firstLine.split(',').length
+          ? '\t'
+          : firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+        return { kind, tables: [toTable(name, parseDelimited(text, delimiter))] };
+      }
+      case 'xlsx': {
+        const XLSX = await loadLibrary(() => import('xlsx'), name);
+        const workbook = XLSX.read(bytes, { type: 'array', cellDates: true });
+        const tables = workbook.SheetNames.map((sheetName: string) => {
+          const rows: string[][] = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { header: 1, raw: false, defval: '' });
+          return toTable(sheetName, rows.filter(cells => cells.some(cell => String(cell).trim())));
+        });
+        return { kind, tables: tables.filter((table: DataTable) => table.rows.length || table.columns.length) };
+      }
+      case 'json':
+        return { kind, value: JSON.parse(new TextDecoder().decode(bytes)) };
+      case 'markdown':
+      case 'text':
+        return { kind, text: new TextDecoder().decode(bytes) };
+      case 'docx': {
+        const mammoth = await loadLibrary(() => import('mammoth').then(module => module.default), name);
+        const result = await mammoth.convertToHtml({ arrayBuffer: bytes.buffer });
+        return { kind, html: result.value };
+      }
+      default:
+        throw new Error(`Unsupported document type: ${mimeType}`);
+    }
+  } catch (error) {
+    if (error instanceof DocumentError) throw error;
+    throw new DocumentError('parse_failed', name, { cause: error });
+  }
+};
+
+// Keeps prompts within a sensible size for large files
+const MAX_TABLE_ROWS = 300;
+const SAMPLE_ROWS = 5;
+const MAX_TEXT_CHARS = 60000;
+
+const truncate = (text: string) =>
+  text.length > MAX_TEXT_CHARS ? `${text.slice(0, MAX_TEXT_CHARS)}\n[... truncated, ${text.length - MAX_TEXT_CHARS} more characters]` : text;
+
+const inferColumnType = (values: string[]) => {
+  const present = values.map(value => value.trim()).filter(Boolean);
+  if (!present.length) return 'empty';
+  if (present.every(value => !isNaN(Number(value.replace(/[,%$¥€]/g, ''))))) return 'number';
+  if (present.every(value => /^(true|false|yes|no|是|否)$/i.test(value))) return 'boolean';
+  if (present.every(value => /\d{1,4}[-/.]\d{1,2}/.test(value) && !isNaN(Date.parse(value.replace(/\./g, '-'))))) return 'date';
+  return 'text';
+};
+
+const toCsvLine = (cells: string[]) =>
+  cells.map(cell => /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell).join(',');
+
+const describeTable = (table: DataTable) => {
+  const schema = table.columns.map((column, i) => {
+    const values = table.rows.map(row => row[i]);
+    const examples = values.filter(value => value.trim()).slice(0, 3).join(' | ');
+    return `- ${column}: ${inferColumnType(values)}${examples ? ` (e.g. ${examples})` : ''}`;
+  });
+  const included = table.rows.slice(0, MAX_TABLE_ROWS);
+  const rowNote = included.length < table.rows.length
+    ? `First ${included.length} of ${table.rows.length} rows`
+    : `All ${table.rows.length} rows`;
+  return [
+    `Table "${table.name}": ${table.rows.length} rows x ${table.columns.length} columns.`,
+    `Schema:\n${schema.join('\n')}`,
+    `${rowNote} as CSV:\n${[table.columns, ...included].map(toCsvLine).join('\n')}`,
+  ].join('\n\n');
+};
+
+// Compact TypeScript-like outline of a JSON value, so the model sees the structure
+// even when the content itself is truncated
+const describeJsonShape = (value: unknown, depth = 0): string => {
+  if (Array.isArray(value)) {
+    return value.length ? `Array<${describeJsonShape(value[0], depth)}> (${value.length} items)` : 'Array (empty)';
+  }
+  if (value && typeof value === 'object') {
+    if (depth >= 4) return '{...}';
+    const entries = Object.entries(value).slice(0, 30);
+    const indent = '  '.repeat(depth + 1);
+    return `{\n${entries.map(([key, item]) => `${indent}${key}: ${describeJsonShape(item, depth + 1)}`).join('\n')}\n${'  '.repeat(depth)}}`;
+  }
+  return value === null ? 'null' : typeof value;
+};
+
+/**
+ * The text prompt part for a parsed document: tabular data is summarised as a
+ * schema plus rows, JSON as its shape plus content, text and Word documents verbatim.
+ */
+export const documentToPromptText = (name: string, parsed: ParsedDocument): string => {
+  const header = `Attached file "${name}" (${DOCUMENT_KIND_LABELS[parsed.kind]}), parsed in the browser:`;
+  switch (parsed.kind) {
+    case 'csv':
+    case 'xlsx':
+      return [
+        header,
+        ...parsed.tables.map(describeTable),
+        `Treat this as the app's dataset: embed the rows above and build a dashboard (charts, filters, summary figures) suited to the columns.${parsed.tables.some(table => table.rows.length > MAX_TABLE_ROWS) ? ' Only part of the data is included; say so in the UI.' : ''}`,
+      ].join('\n\n');
+    case 'json':
+      return `${header}\n\nShape:\n${describeJsonShape(parsed.value)}\n\nContent:\n${truncate(JSON.stringify(parsed.value, null, 2))}`;
+    case 'markdown':
+    case 'text':
+      return `${header}\n\n${truncate(parsed.text)}`;
+    case 'docx':
+      return `${header}\n\nDocument converted to HTML:\n${truncate(parsed.html)}`;
+  }
+};
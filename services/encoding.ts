@@ -0,0 +1,16 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Base64 helpers for persisting small binary values (salts, IVs, ciphertext) in localStorage
+// and for reading back the data URLs that source inputs are stored as
+
+export const bytesToBase64 = (bytes: ArrayBuffer | Uint8Array) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+export const base64ToBytes = (value: string) =>
+  Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+/** Decodes the payload of a base64 data URL. */
+export const dataUrlToBytes = (dataUrl: string) => base64ToBytes(dataUrl.slice(dataUrl.indexOf(',') + 1));
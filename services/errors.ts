@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type GenerationErrorKind =
+  | 'missing_key'
+  | 'invalid_key'
+  | 'rate_limit'
+  | 'safety'
+  | 'empty_response'
+  | 'truncated'
+  | 'network'
+  | 'server'
+  | 'unsupported_input'
+  | 'unknown';
+
+// Failures worth retrying automatically with backoff
+const TRANSIENT_KINDS: GenerationErrorKind[] = ['rate_limit', 'network', 'server', 'empty_response'];
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly status?: number;
+  readonly cause?: unknown;
+
+  constructor(kind: GenerationErrorKind, message?: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message || kind);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+
+  get retryable(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  (error instanceof DOMException && error.name === 'AbortError') ||
+  (error as any)?.name === 'AbortError';
+
+export const classifyHttpStatus = (status: number, detail = ''): GenerationErrorKind => {
+  if (status === 401 || status === 403) return 'invalid_key';
+  if (status === 400 && /api[ _-]?key/i.test(detail)) return 'invalid_key';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+/**
+ * Maps anything thrown by a provider (SDK errors, fetch failures, our own
+ * GenerationErrors) onto a GenerationError. Abort errors are returned as-is
+ * so callers can tell a cancellation from a failure.
+ */
+export const classifyError = (error: unknown): unknown => {
+  if (error instanceof GenerationError || isAbortError(error)) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as any)?.status === 'number' ? (error as any).status : undefined;
+
+  if (status !== undefined) {
+    return new GenerationError(classifyHttpStatus(status, message), message, { status, cause: error });
+  }
+  // fetch() rejects with a TypeError when the request never reached the server
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new GenerationError('network', message, { cause: error });
+  }
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new GenerationError('rate_limit', message, { cause: error });
+  }
+  if (/API key not valid|PERMISSION_DENIED/i.test(message)) {
+    return new GenerationError('invalid_key', message, { cause: error });
+  }
+  return new GenerationError('unknown', message, { cause: error });
+};
@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation } from '../components/CreationHistory';
+import { getSourceInputs, getMimeType } from './sourceInputs';
+import { getVersionNumber } from './versions';
+import { dataUrlToBytes } from './encoding';
+import { ZipEntry, createZip } from './zip';
+
+export type ExportFormat = 'json' | 'html' | 'zip' | 'vite';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, { label: string, description: string }> = {
+  json: { label: 'JSON', description: '可重新导入本应用' },
+  html: { label: 'HTML', description: '单个网页文件，可直接托管' },
+  zip: { label: 'ZIP 包', description: '网页、原始输入与清单文件' },
+  vite: { label: 'Vite 项目', description: '样式与脚本拆分为独立文件' },
+};
+
+// Characters that are invalid in file names on Windows, macOS or Linux
+const RESERVED_CHARS = /[<>:"/\\|?*\u0000-\u001f\u007f]/g;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)$/i;
+const MAX_NAME_LENGTH = 80;
+
+/**
+ * Makes a name safe to use as a file name while keeping non-Latin text, so
+ * "番茄钟 v2" stays readable instead of becoming underscores.
+ */
+export const toSafeFileName = (name: string, fallback = 'creation') => {
+  const cleaned = name
+    .normalize('NFC')
+    .replace(RESERVED_CHARS, '_')
+    .replace(/\s+/g, '-')
+    .replace(/^[.\-_]+|[.\-_]+$/g, '');
+  // Slice by code point so surrogate pairs (emoji) are never cut in half
+  const trimmed = Array.from(cleaned).slice(0, MAX_NAME_LENGTH).join('');
+  return !trimmed || RESERVED_NAMES.test(trimmed) ? fallback : trimmed;
+};
+
+// npm package names must be lowercase URL-safe ASCII
+const toPackageName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'bring-to-life-app';
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  // Firefox and Safari start the download asynchronously; revoking right away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'application/pdf': 'pdf',
+};
+
+// Keeps the original extension where there is one, otherwise derives it from the MIME type
+const sourceFileName = (name: string, mimeType: string, index: number) => {
+  const safe = toSafeFileName(name, `input-${index + 1}`);
+  const hasExtension = /\.[a-z0-9]{1,5}$/i.test(safe);
+  return `${index + 1}-${safe}${hasExtension || !EXTENSIONS[mimeType] ? '' : `.${EXTENSIONS[mimeType]}`}`;
+};
+
+const baseName = (creation: Creation) => {
+  const version = getVersionNumber(creation);
+  return `${toSafeFileName(creation.name)}${version > 1 ? `-v${version}` : ''}`;
+};
+
+// Source files plus a manifest describing them, shared by the zip and Vite exports
+const sourceEntries = (creation: Creation, folder: string) => {
+  const inputs = getSourceInputs(creation);
+  const files: ZipEntry[] = [];
+  const sources = inputs.map((input, index) => {
+    const mimeType = getMimeType(input.dataUrl);
+    const path = `${folder}/${sourceFileName(input.name, mimeType, index)}`;
+    files.push({ path, data: dataUrlToBytes(input.dataUrl) });
+    if (input.sketch) {
+      files.push({ path: `${path}.sketch.json`, data: JSON.stringify(input.sketch, null, 2) });
+    }
+    return { file: path, name: input.name, mimeType, pages: input.pages };
+  });
+  const manifest = {
+    name: creation.name,
+    version: getVersionNumber(creation),
+    createdAt: new Date(creation.timestamp).toISOString(),
+    exportedAt: new Date().toISOString(),
+    allowNetwork: !!creation.allowNetwork,
+    sources,
+    conversation: creation.conversation?.map(({ role, text, timestamp }) => ({ role, text, timestamp })),
+  };
+  return { files, manifest };
+};
+
+const exportJson = (creation: Creation) =>
+  new Blob([JSON.stringify(creation, null, 2)], { type: 'application/json' });
+
+const exportHtml = (creation: Creation) =>
+  new Blob([creation.html], { type: 'text/html;charset=utf-8' });
+
+const exportZip = (creation: Creation) => {
+  const { files, manifest } = sourceEntries(creation, 'sources');
+  return createZip([
+    { path: 'index.html', data: creation.html },
+    ...files,
+    { path: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+  ]);
+};
+
+// Script types that hold data or templates rather than code; left inline
+const DATA_SCRIPT_TYPE = /json|template|importmap|text\/(?!javascript)/i;
+
+/**
+ * Moves inline <style> and <script> blocks out of the document. Styles and
+ * module scripts go to src/ for Vite to bundle; classic scripts go to public/
+ * unchanged, since turning them into modules would break global functions
+ * that inline event handlers (onclick="...") rely on.
+ */
+const splitInlineAssets = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const files: ZipEntry[] = [];
+
+  doc.querySelectorAll('style').forEach((style, i) => {
+    const path = `src/styles${i ? `-${i + 1}` : ''}.css`;
+    files.push({ path, data: style.textContent || '' });
+    const link = doc.createElement('link');
+    link.rel = 'stylesheet';
+    link.href = `/${path}`;
+    style.replaceWith(link);
+  });
+
+  let moduleCount = 0;
+  let classicCount = 0;
+  doc.querySelectorAll('script:not([src])').forEach(script => {
+    const type = script.getAttribute('type') || '';
+    if (DATA_SCRIPT_TYPE.test(type)) return;
+    const replacement = doc.createElement('script');
+    for (const { name, value } of Array.from(script.attributes)) replacement.setAttribute(name, value);
+    if (type === 'module') {
+      moduleCount++;
+      const path = `src/main${moduleCount > 1 ? `-${moduleCount}` : ''}.js`;
+      files.push({ path, data: script.textContent || '' });
+      replacement.src = `/${path}`;
+    } else {
+      classicCount++;
+      const path = `scripts/app${classicCount > 1 ? `-${classicCount}` : ''}.js`;
+      files.push({ path: `public/${path}`, data: script.textContent || '' });
+      replacement.src = `/${path}`;
+    }
+    script.replaceWith(replacement);
+  });
+
+  return { html: `<!DOCTYPE html>\n${doc.documentElement.outerHTML}\n`, files };
+};
+
+const exportViteProject = (creation: Creation) => {
+  const root = toSafeFileName(creation.name);
+  const { html, files } = splitInlineAssets(creation.html);
+  const { files: sources, manifest } = sourceEntries(creation, 'sources');
+  const packageJson = {
+    name: toPackageName(creation.name),
+    private: true,
+    version: `0.${getVersionNumber(creation)}.0`,
+    type: 'module',
+    scripts: { dev: 'vite', build: 'vite build', preview: 'vite preview' },
+    devDependencies: { vite: '^5.4.1' },
+  };
+  const readme = [
+    `# ${creation.name}`,
+    '',
+    '```bash',
+    'npm install',
+    'npm run dev',
+    '```',
+    '',
+    '- `src/`: styles and module scripts, bundled by Vite',
+    '- `public/scripts/`: classic scripts, served as-is so their global functions keep working',
+    '- `sources/`: the files this app was generated from, described in `sources/manifest.json`',
+    '',
+  ].join('\n');
+
+  return createZip([
+    { path: `${root}/package.json`, data: JSON.stringify(packageJson, null, 2) },
+    { path: `${root}/index.html`, data: html },
+    ...files.map(file => ({ ...file, path: `${root}/${file.path}` })),
+    ...sources.map(file => ({ ...file, path: `${root}/${file.path}` })),
+    { path: `${root}/sources/manifest.json`, data: JSON.stringify(manifest, null, 2) },
+    { path: `${root}/README.md`, data: readme },
+  ]);
+};
+
+/** Downloads `creation` in the given format under a name derived from its title. */
+export const exportCreation = (creation: Creation, format: ExportFormat) => {
+  const name = baseName(creation);
+  switch (format) {
+    case 'json':
+      return downloadBlob(exportJson(creation), `${name}.json`);
+    case 'html':
+      return downloadBlob(exportHtml(creation), `${name}.html`);
+    case 'zip':
+      return downloadBlob(exportZip(creation), `${name}.zip`);
+    case 'vite':
+      return downloadBlob(exportViteProject(creation), `${name}-vite.zip`);
+  }
+};
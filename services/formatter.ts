@@ -0,0 +1,22 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Pretty-prints a full HTML document, including its inline CSS and JS. */
+export const formatHtml = async (html: string): Promise<string> => {
+  // Prettier is only needed when the user formats code, so it is split into its own chunk.
+  // The HTML printer hands inline <style> and <script> blocks to the other plugins.
+  const [prettier, ...plugins] = await Promise.all([
+    import('prettier/standalone'),
+    import('prettier/plugins/html'),
+    import('prettier/plugins/postcss'),
+    import('prettier/plugins/babel'),
+    import('prettier/plugins/estree'),
+  ]);
+  return prettier.format(html, {
+    parser: 'html',
+    plugins: plugins.map(plugin => plugin.default),
+    printWidth: 100,
+  });
+};
@@ -2,10 +2,13 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-
-// Using gemini-2.5-pro for complex coding tasks.
-const GEMINI_MODEL = 'gemini-2.0-flash'; // 2.0 Flash is faster and free-tier friendly, but users can change logic if they want Pro
+import { GenerationRequest, PromptPart, ProviderConfig } from './providers/types';
+import { KeyProfile, createProvider, getActiveProfile, getActiveProviderConfig, setActiveProfile } from './providers/registry';
+import { getNextHealthyProfile, setProfileStatus } from './providers/profileStatus';
+import { GenerationError, classifyError } from './errors';
+import { RetryOptions, shouldRetry, withRetry } from './retry';
+import { ChatTurn } from '../components/CreationHistory';
+import { ElementTarget } from './previewBridge';
 
 const SYSTEM_INSTRUCTION = `You are an expert AI Engineer and Product Designer specializing in "bringing artifacts to life".
 Your goal is to take a user uploaded file—which might be a polished UI design, a messy napkin sketch, a photo of a whiteboard with jumbled notes, or a picture of a real-world object (like a messy desk)—and instantly generate a fully functional, interactive, single-page HTML/JS/CSS application.
@@ -35,8 +38,10 @@ const UPDATE_SYSTEM_INSTRUCTION = `You are an expert AI Engineer.
 Your goal is to modify an existing single-page HTML application based on the user's request.
 
 INPUT:
-1. The current HTML code.
-2. A user request describing the desired changes.
+1. (Optional) The earlier conversation about this app: previous user requests and summaries of the changes you made.
+2. The current HTML code.
+3. (Optional) Elements the user selected in the running app, each with a CSS selector and its outerHTML.
+4. A user request describing the desired changes.
 
 DIRECTIVES:
 1. Return the FULL updated HTML code. Do not return partial diffs.
@@ -45,104 +50,311 @@ DIRECTIVES:
 4. Ensure the text remains in Simplified Chinese (简体中文) if not specified otherwise.
 5. If the user asks to "fix" something, analyze the code and fix the logic.
 6. **NO EXTERNAL IMAGES**: Do NOT add <img src="..."> with external URLs. Use CSS, SVGs, or Emojis.
+7. Earlier requests in the conversation still apply unless the new request overrides them. Do not reintroduce problems that earlier requests fixed.
+8. If elements were selected, apply the request to those elements only. Leave the rest of the document as it is, apart from CSS or JS that the change strictly requires.
 
 RESPONSE FORMAT:
-Return ONLY the raw HTML code. Start immediately with <!DOCTYPE html>.`;
+Start with a single HTML comment summarising what you changed in one short sentence in Simplified Chinese, exactly like: <!-- SUMMARY: 增加了计分板 -->
+Then return ONLY the raw HTML code, starting with <!DOCTYPE html>.`;
 
-// Helper to get the client with the user's key
-const getGenAIClient = () => {
-  const apiKey = localStorage.getItem('user_gemini_api_key');
-  if (!apiKey) {
-    throw new Error("API_KEY_MISSING");
-  }
-  return new GoogleGenAI({ apiKey });
-};
+const REACT_SYSTEM_INSTRUCTION = `You are an expert React and TypeScript engineer.
+Your goal is to convert a self-contained single-page HTML application into an idiomatic React 18 + TypeScript component tree that behaves exactly the same.
+
+DIRECTIVES:
+1. Write function components in .tsx files under src/. The root component is the default export of src/App.tsx; put other components in src/components/, one per file.
+2. Give every component an exported, typed Props interface. Lift obvious content data (lists of items, menu entries, questions, levels, products) into typed constants in src/data.ts and pass it down as props.
+3. Move CSS into CSS Modules (Component.module.css next to each component, imported as \`styles\`). Global rules (resets, body, :root variables, @keyframes used everywhere) go in src/index.css.
+4. Replace direct DOM manipulation (querySelector, innerHTML, addEventListener on elements, inline onclick attributes) with state, props, refs and effects.
+5. Only import from 'react', 'react-dom' and relative paths. Keep Tailwind class names as they are if the original uses Tailwind. Do NOT use \`any\` where a real type is easy to write.
+6. Do NOT write package.json, index.html, vite.config.ts or src/main.tsx; they are provided.
+7. Keep all user-facing text exactly as in the original.
+
+RESPONSE FORMAT:
+Return ONLY file blocks, with no other commentary. Start each file with a marker line, then its full contents:
+===== FILE: src/App.tsx =====
+(file contents)
+===== FILE: src/components/Board.tsx =====
+(file contents)`;
 
-export async function validateApiKey(apiKey: string): Promise<boolean> {
+export async function validateApiKey(config: ProviderConfig = getActiveProviderConfig()): Promise<boolean> {
   try {
-    const ai = new GoogleGenAI({ apiKey });
-    // Minimal generation to test access
-    await ai.models.generateContent({
-      model: GEMINI_MODEL,
-      contents: { parts: [{ text: "test" }] },
-    });
-    return true;
+    return await createProvider(config).validate();
   } catch (error) {
     console.error("API Validation Failed:", error);
     return false;
   }
 }
 
-export async function bringToLife(prompt: string, fileBase64?: string, mimeType?: string): Promise<string> {
-  const ai = getGenAIClient();
-  const parts: any[] = [];
-  
-  // Strong directive for file-only inputs with emphasis on NO external images
-  const finalPrompt = fileBase64 
-    ? "Analyze this image/document. Detect what functionality is implied. If it is a real-world object (like a desk), gamify it (e.g., a cleanup game). Build a fully interactive web app. IMPORTANT: Do NOT use external image URLs. Recreate the visuals using CSS, SVGs, or Emojis. Ensure all user-facing text is in Simplified Chinese." 
-    : prompt || "创建一个展示你能力的演示应用。";
+/** Validates a key profile and records the outcome as its health status. */
+export async function validateProfile(profile: KeyProfile): Promise<boolean> {
+  setProfileStatus(profile.id, 'checking');
+  const isValid = await validateApiKey(profile);
+  setProfileStatus(profile.id, isValid ? 'valid' : 'invalid');
+  return isValid;
+}
+
+export interface GenerationOptions {
+  // Aborting rejects the pending call (or stops the stream) with an AbortError.
+  signal?: AbortSignal;
+  // Called before each automatic retry of a transient failure.
+  onRetry?: (attempt: number, error: GenerationError) => void;
+  // Called after a quota / rate-limit failure switched the active key profile.
+  onFailover?: (profile: KeyProfile, error: GenerationError) => void;
+}
+
+// Strip markdown fences if the model still included them despite instructions
+const stripCodeFences = (text: string): string =>
+  text.replace(/^```html\s*/, '').replace(/^```\s*/, '').replace(/```\s*$/, '');
+
+const FILE_DIRECTIVE = "Analyze this image/document. Detect what functionality is implied. If it is a real-world object (like a desk), gamify it (e.g., a cleanup game). If it is a multi-page spec or form, consider a multi-step app with one step per page. If it is tabular or JSON data, build a dashboard to explore it. Build a fully interactive web app. IMPORTANT: Do NOT use external image URLs. Recreate the visuals using CSS, SVGs, or Emojis. Ensure all user-facing text is in Simplified Chinese.";
+
+const TEXT_DIRECTIVE = "Build a fully interactive web app from the description below. IMPORTANT: Do NOT use external image URLs. Use CSS, SVGs, or Emojis for visuals. Ensure all user-facing text is in Simplified Chinese.";
+
+// A source file as sent to the model: base64 payload without the data URL prefix,
+// or the text a data file or document was parsed into
+export type InlineInput =
+  | { data: string; mimeType: string }
+  | { text: string };
+
+const buildGenerationParts = (prompt: string, inputs: InlineInput[]): PromptPart[] => {
+  const parts: PromptPart[] = [];
+  const instructions = prompt.trim();
+
+  // Strong directive for file inputs with emphasis on NO external images.
+  // User instructions are appended and win wherever they disagree with the files.
+  let finalPrompt: string;
+  if (inputs.length > 0) {
+    finalPrompt = FILE_DIRECTIVE;
+    if (inputs.length > 1) {
+      finalPrompt += `\n\n${inputs.length} files are attached, in order (for example consecutive screens of a flow, or a sketch plus reference material). Combine them into a single app.`;
+    }
+    if (instructions) {
+      finalPrompt += `\n\nUser instructions (follow these over your own interpretation of the files where they conflict):\n${instructions}`;
+    }
+  } else {
+    finalPrompt = instructions ? `${TEXT_DIRECTIVE}\n\n${instructions}` : "创建一个展示你能力的演示应用。";
+  }
 
   parts.push({ text: finalPrompt });
 
-  if (fileBase64 && mimeType) {
-    parts.push({
-      inlineData: {
-        data: fileBase64,
-        mimeType: mimeType,
-      },
-    });
+  // One inline part per file, in the order the user arranged them
+  for (const input of inputs) {
+    parts.push('text' in input ? { text: input.text } : { inlineData: input });
+  }
+
+  return parts;
+};
+
+// Only the most recent turns are sent so long edit sessions don't blow the context window
+const MAX_CONTEXT_TURNS = 20;
+
+const formatConversation = (conversation: ChatTurn[]): string =>
+  conversation
+    .slice(-MAX_CONTEXT_TURNS)
+    .map(turn => `${turn.role === 'user' ? 'User' : 'You'}: ${turn.text}`)
+    .join('\n');
+
+export interface UpdateContext {
+  // Earlier turns of the edit conversation for this creation
+  conversation?: ChatTurn[];
+  // Console errors captured from the running preview
+  runtimeErrors?: string[];
+  // Elements picked in the preview that the request is about
+  targets?: ElementTarget[];
+}
+
+const buildUpdateParts = (currentHtml: string, userPrompt: string, context: UpdateContext): PromptPart[] => {
+  const parts: PromptPart[] = [];
+
+  if (context.conversation?.length) {
+    parts.push({ text: `Earlier conversation about this app (oldest first):\n${formatConversation(context.conversation)}` });
+  }
+
+  parts.push({ text: "Here is the current HTML code:" });
+  parts.push({ text: currentHtml });
+
+  if (context.runtimeErrors?.length) {
+    parts.push({ text: `Errors captured from the browser console while running this code:\n${context.runtimeErrors.join('\n')}` });
+  }
+
+  if (context.targets?.length) {
+    const targets = context.targets.map((target, i) => `${i + 1}. Selector: ${target.selector}\n${target.html}`);
+    parts.push({ text: `The user selected these elements in the running app. Change only these:\n\n${targets.join('\n\n')}` });
+  }
+
+  parts.push({ text: `User Request: ${userPrompt}` });
+  parts.push({ text: "Please provide the updated full HTML code." });
+  return parts;
+};
+
+export interface ReactConversionContext {
+  // A previous attempt and the problems client-side validation found in it
+  previousOutput?: string;
+  problems?: string[];
+}
+
+const buildReactParts = (html: string, context: ReactConversionContext): PromptPart[] => {
+  const parts: PromptPart[] = [
+    { text: "Here is the HTML application to convert:" },
+    { text: html },
+  ];
+  if (context.previousOutput && context.problems?.length) {
+    parts.push({ text: `Your previous conversion:\n${context.previousOutput}` });
+    parts.push({ text: `It failed validation with these problems:\n${context.problems.join('\n')}\n\nReturn the complete corrected set of files.` });
   }
+  return parts;
+};
 
+const SUMMARY_PATTERN = /^\s*<!--\s*SUMMARY:\s*([\s\S]*?)\s*-->\s*/;
+
+/** Separates the leading change-summary comment from an updated document. */
+export const splitChangeSummary = (html: string): { html: string; summary?: string } => {
+  const match = html.match(SUMMARY_PATTERN);
+  if (!match) return { html };
+  return { html: stripCodeFences(html.slice(match[0].length)), summary: match[1] };
+};
+
+// Retry options for a request running on `profile`. A rate limit is not
+// waited out when another healthy profile can take over immediately.
+const retryOptionsFor = (profile: KeyProfile, tried: Set<string>, options: GenerationOptions): RetryOptions => ({
+  ...options,
+  isRetryable: error => error.retryable && !(error.kind === 'rate_limit' && getNextHealthyProfile(profile.id, tried)),
+});
+
+// After a quota / rate-limit failure, marks `profile` and makes the next
+// healthy one active. Returns false when the error should just be rethrown.
+const failover = (error: unknown, profile: KeyProfile, tried: Set<string>, options: GenerationOptions): boolean => {
+  if (options.signal?.aborted || !(error instanceof GenerationError) || error.kind !== 'rate_limit') return false;
+  setProfileStatus(profile.id, 'rate_limited');
+  const next = getNextHealthyProfile(profile.id, tried);
+  if (!next) return false;
+  setActiveProfile(next.id);
+  options.onFailover?.(next, error);
+  return true;
+};
+
+// Runs a single-shot request, retrying transient failures with backoff and
+// failing over to other key profiles when one runs out of quota.
+// Failures are rethrown as GenerationErrors (or the AbortError on cancel).
+const runRequest = async (request: GenerationRequest, options: GenerationOptions, label: string): Promise<string> => {
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: GEMINI_MODEL,
-      contents: {
-        parts: parts
-      },
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        temperature: 0.5, // Higher temperature for more creativity with mundane inputs
-      },
-    });
-
-    let text = response.text || "<!-- 生成内容失败 -->";
-
-    // Cleanup if the model still included markdown fences despite instructions
-    text = text.replace(/^```html\s*/, '').replace(/^```\s*/, '').replace(/```$/, '');
-
-    return text;
+    const tried = new Set<string>();
+    for (;;) {
+      const profile = getActiveProfile();
+      tried.add(profile.id);
+      const provider = createProvider(profile);
+      try {
+        return await withRetry(async () => {
+          const text = stripCodeFences(await provider.generate(request));
+          if (!text.trim()) throw new GenerationError('empty_response');
+          return text;
+        }, retryOptionsFor(profile, tried, options));
+      } catch (error) {
+        if (!failover(error, profile, tried, options)) throw error;
+      }
+    }
   } catch (error) {
-    console.error("Gemini Generation Error:", error);
-    throw error;
+    if (!options.signal?.aborted) console.error(`${label}:`, error);
+    throw classifyError(error);
   }
-}
+};
 
-export async function updateCode(currentHtml: string, userPrompt: string): Promise<string> {
-  const ai = getGenAIClient();
+// Streaming counterpart of runRequest. Yields the accumulated text after every
+// chunk. A transient failure is only retried (or failed over) while nothing
+// has been yielded, since a restarted stream would otherwise duplicate what
+// the caller has shown.
+async function* streamRequest(request: GenerationRequest, options: GenerationOptions, label: string): AsyncGenerator<string> {
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: GEMINI_MODEL,
-      contents: {
-        parts: [
-          { text: "Here is the current HTML code:" },
-          { text: currentHtml },
-          { text: `User Request: ${userPrompt}` },
-          { text: "Please provide the updated full HTML code." }
-        ]
-      },
-      config: {
-        systemInstruction: UPDATE_SYSTEM_INSTRUCTION,
-        temperature: 0.5,
-      },
-    });
-
-    let text = response.text || currentHtml;
-    // Cleanup markdown fences
-    text = text.replace(/^```html\s*/, '').replace(/^```\s*/, '').replace(/```$/, '');
-    
-    return text;
+    const tried = new Set<string>();
+    for (;;) {
+      const profile = getActiveProfile();
+      tried.add(profile.id);
+      const provider = createProvider(profile);
+      const retryOptions = retryOptionsFor(profile, tried, options);
+      let streamed = false;
+      try {
+        for (let attempt = 0; ; attempt++) {
+          let text = '';
+          try {
+            for await (const delta of provider.generateStream(request)) {
+              options.signal?.throwIfAborted();
+              text += delta;
+              streamed = true;
+              yield stripCodeFences(text);
+            }
+            if (!text.trim()) throw new GenerationError('empty_response');
+            return;
+          } catch (error) {
+            const failure = text ? classifyError(error) : await shouldRetry(error, attempt, retryOptions);
+            if (failure) throw failure;
+          }
+        }
+      } catch (error) {
+        if (streamed || !failover(error, profile, tried, options)) throw error;
+      }
+    }
   } catch (error) {
-    console.error("Gemini Update Error:", error);
-    throw error;
+    if (!options.signal?.aborted) console.error(`${label}:`, error);
+    throw classifyError(error);
   }
-}
\ No newline at end of file
+}
+
+export async function bringToLife(prompt: string, inputs: InlineInput[] = [], options: GenerationOptions = {}): Promise<string> {
+  return runRequest({
+    systemInstruction: SYSTEM_INSTRUCTION,
+    parts: buildGenerationParts(prompt, inputs),
+    temperature: 0.5, // Higher temperature for more creativity with mundane inputs
+    signal: options.signal,
+  }, options, "Generation Error");
+}
+
+/**
+ * Streaming variant of `bringToLife`. Yields the accumulated HTML so far after
+ * every chunk, so callers can render the partial document as it arrives.
+ * The final yielded value is the complete, cleaned-up document.
+ */
+export async function* bringToLifeStream(prompt: string, inputs: InlineInput[] = [], options: GenerationOptions = {}): AsyncGenerator<string> {
+  yield* streamRequest({
+    systemInstruction: SYSTEM_INSTRUCTION,
+    parts: buildGenerationParts(prompt, inputs),
+    temperature: 0.5,
+    signal: options.signal,
+  }, options, "Generation Error");
+}
+
+// Like the streaming variant, the result starts with the change-summary comment.
+export async function updateCode(currentHtml: string, userPrompt: string, context: UpdateContext = {}, options: GenerationOptions = {}): Promise<string> {
+  return runRequest({
+    systemInstruction: UPDATE_SYSTEM_INSTRUCTION,
+    parts: buildUpdateParts(currentHtml, userPrompt, context),
+    temperature: 0.5,
+    signal: options.signal,
+  }, options, "Update Error");
+}
+
+/**
+ * Streaming variant of `updateCode`. Yields the accumulated updated HTML after
+ * every chunk. The result still starts with the change-summary comment; use
+ * `splitChangeSummary` on the final value.
+ */
+export async function* updateCodeStream(currentHtml: string, userPrompt: string, context: UpdateContext = {}, options: GenerationOptions = {}): AsyncGenerator<string> {
+  yield* streamRequest({
+    systemInstruction: UPDATE_SYSTEM_INSTRUCTION,
+    parts: buildUpdateParts(currentHtml, userPrompt, context),
+    temperature: 0.5,
+    signal: options.signal,
+  }, options, "Update Error");
+}
+
+/**
+ * Converts a generated app into React + TypeScript source files. The result is
+ * a sequence of "===== FILE: path =====" blocks; see services/reactExport.ts.
+ */
+export async function convertToReact(html: string, context: ReactConversionContext = {}, options: GenerationOptions = {}): Promise<string> {
+  return runRequest({
+    systemInstruction: REACT_SYSTEM_INSTRUCTION,
+    parts: buildReactParts(html, context),
+    temperature: 0.2, // Faithful translation rather than reinterpretation
+    signal: options.signal,
+  }, options, "React Conversion Error");
+}
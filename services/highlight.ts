@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Lightweight syntax highlighting for the code panel. It only has to colour a
+// single HTML document with inline <style> and <script> blocks, so a handful
+// of regular expressions is enough; output is escaped HTML with Tailwind spans.
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const span = (className: string, text: string) =>
+  text ? `<span class="${className}">${escapeHtml(text)}</span>` : '';
+
+const COMMENT = 'text-zinc-500 italic';
+const STRING = 'text-amber-300';
+const KEYWORD = 'text-violet-400';
+const NUMBER = 'text-emerald-300';
+const NAME = 'text-sky-300';
+const TAG = 'text-pink-400';
+const PUNCTUATION = 'text-zinc-500';
+
+// Each capture group maps to the class at the same position
+const highlightWith = (pattern: RegExp, classes: string[], code: string) => {
+  let out = '';
+  let last = 0;
+  for (const match of code.matchAll(pattern)) {
+    out += escapeHtml(code.slice(last, match.index));
+    const group = match.findIndex((text, i) => i > 0 && text !== undefined);
+    out += group > 0 ? span(classes[group - 1], match[0]) : escapeHtml(match[0]);
+    last = match.index! + match[0].length;
+  }
+  return out + escapeHtml(code.slice(last));
+};
+
+const JS_TOKENS = new RegExp([
+  /(\/\/[^\n]*|\/\*[\s\S]*?\*\/)/.source,
+  /(`(?:\\[\s\S]|[^\\`])*`|"(?:\\.|[^\\"\n])*"|'(?:\\.|[^\\'\n])*')/.source,
+  /\b(const|let|var|function|return|if|else|for|while|do|switch|case|break|continue|new|class|extends|import|export|from|default|async|await|try|catch|finally|throw|typeof|instanceof|in|of|this|null|undefined|true|false)\b/.source,
+  /\b(\d+(?:\.\d+)?)\b/.source,
+].join('|'), 'g');
+
+const CSS_TOKENS = new RegExp([
+  /(\/\*[\s\S]*?\*\/)/.source,
+  /("(?:\\.|[^\\"\n])*"|'(?:\\.|[^\\'\n])*')/.source,
+  // A property name is followed by a colon and a value that ends the declaration
+  /([\w-]+)(?=\s*:[^{};]*[;}])/.source,
+  /(#[0-9a-fA-F]{3,8}\b|-?\b\d+(?:\.\d+)?(?:px|em|rem|%|vh|vw|s|ms|deg|fr)?)/.source,
+].join('|'), 'g');
+
+export const highlightJs = (code: string) => highlightWith(JS_TOKENS, [COMMENT, STRING, KEYWORD, NUMBER], code);
+
+export const highlightCss = (code: string) => highlightWith(CSS_TOKENS, [COMMENT, STRING, NAME, NUMBER], code);
+
+const ATTRIBUTE = /([^\s=]+)(\s*=\s*)?("[^"]*"|'[^']*'|[^\s"']+)?/g;
+
+const highlightAttributes = (source: string) => {
+  let out = '';
+  let last = 0;
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    out += escapeHtml(source.slice(last, match.index));
+    out += span(NAME, match[1]) + escapeHtml(match[2] || '') + span(STRING, match[3] || '');
+    last = match.index! + match[0].length;
+  }
+  return out + escapeHtml(source.slice(last));
+};
+
+// JSON and template blocks are left uncoloured rather than misread as code
+const DATA_SCRIPT_TYPE = /type\s*=\s*["']?[^"'\s>]*(?:json|template|importmap)/i;
+
+const HTML_TOKENS = /(<!--[\s\S]*?-->)|(<!DOCTYPE[^>]*>)|(<\/?)([A-Za-z][\w-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)(\s*\/?>)/gi;
+
+/** Returns `html` as escaped markup with highlight spans, including inline CSS and JS. */
+export const highlightHtml = (html: string) => {
+  let out = '';
+  let last = 0;
+  HTML_TOKENS.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = HTML_TOKENS.exec(html))) {
+    out += escapeHtml(html.slice(last, match.index));
+    const [whole, comment, doctype, open, name, attributes, close] = match;
+    if (comment || doctype) {
+      out += span(COMMENT, whole);
+    } else {
+      out += span(PUNCTUATION, open) + span(TAG, name) + highlightAttributes(attributes) + span(PUNCTUATION, close);
+    }
+    last = match.index + whole.length;
+
+    // Script and style bodies are raw text; colour them as code up to the closing tag
+    const tag = name?.toLowerCase();
+    if (open === '<' && (tag === 'script' || tag === 'style')) {
+      const end = html.toLowerCase().indexOf(`</${tag}`, last);
+      const bodyEnd = end === -1 ? html.length : end;
+      const body = html.slice(last, bodyEnd);
+      out += tag === 'style' ? highlightCss(body) : DATA_SCRIPT_TYPE.test(attributes) ? escapeHtml(body) : highlightJs(body);
+      last = bodyEnd;
+      HTML_TOKENS.lastIndex = bodyEnd;
+    }
+  }
+  return out + escapeHtml(html.slice(last));
+};
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const SETTINGS_KEY = 'image_processing_settings';
+
+export type OutputFormat = 'image/webp' | 'image/jpeg';
+
+export interface ImageProcessingSettings {
+  // Longest edge in pixels after downscaling; smaller images are never upscaled
+  maxDimension: number;
+  format: OutputFormat;
+  quality: number;
+}
+
+export const MAX_DIMENSION_OPTIONS = [1024, 1536, 2048, 3072];
+
+export const OUTPUT_FORMAT_LABELS: Record<OutputFormat, string> = {
+  'image/webp': 'WebP',
+  'image/jpeg': 'JPEG',
+};
+
+const DEFAULT_SETTINGS: ImageProcessingSettings = {
+  maxDimension: 2048,
+  format: 'image/webp',
+  quality: 0.85,
+};
+
+// Region to keep, as fractions (0..1) of the correctly oriented image
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type ImageProcessingErrorKind = 'unsupported_format' | 'decode_failed' | 'encode_failed';
+
+export class ImageProcessingError extends Error {
+  readonly kind: ImageProcessingErrorKind;
+  readonly fileName: string;
+
+  constructor(kind: ImageProcessingErrorKind, fileName: string) {
+    super(`${kind}: ${fileName}`);
+    this.name = 'ImageProcessingError';
+    this.kind = kind;
+    this.fileName = fileName;
+  }
+}
+
+export const loadImageProcessingSettings = (): ImageProcessingSettings => {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch (e) {
+    console.error("Failed to load image processing settings", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveImageProcessingSettings = (settings: ImageProcessingSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// HEIC/HEIF often arrives with an empty MIME type, so the extension is checked too
+export const isHeicFile = (file: File) =>
+  /^image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+// Vector and animated formats would lose what makes them useful if rasterised
+const PASSTHROUGH_TYPES = ['image/svg+xml', 'image/gif'];
+
+export const canPreprocess = (file: File) =>
+  (file.type.startsWith('image/') || isHeicFile(file)) && !PASSTHROUGH_TYPES.includes(file.type);
+
+// `imageOrientation: 'from-image'` applies the EXIF orientation, so phone photos
+// come out upright. HEIC only decodes where the browser supports it (Safari).
+const decodeImage = async (file: File): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new ImageProcessingError(isHeicFile(file) ? 'unsupported_format' : 'decode_failed', file.name);
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+
+const EXTENSIONS: Record<string, string> = { 'image/webp': 'webp', 'image/jpeg': 'jpg' };
+
+/**
+ * Crops, downscales and re-encodes an image. Re-encoding also drops the EXIF
+ * block (GPS position and the like) from what gets sent and stored.
+ */
+export const preprocessImage = async (
+  file: File,
+  crop?: CropRect,
+  settings: ImageProcessingSettings = loadImageProcessingSettings(),
+): Promise<File> => {
+  const bitmap = await decodeImage(file);
+  const region = crop || { x: 0, y: 0, width: 1, height: 1 };
+  const sx = Math.round(region.x * bitmap.width);
+  const sy = Math.round(region.y * bitmap.height);
+  const sw = Math.max(1, Math.round(region.width * bitmap.width));
+  const sh = Math.max(1, Math.round(region.height * bitmap.height));
+  const scale = Math.min(1, settings.maxDimension / Math.max(sw, sh));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sw * scale);
+  canvas.height = Math.round(sh * scale);
+  const context = canvas.getContext('2d')!;
+  // JPEG has no alpha; keep transparent regions white rather than black
+  if (settings.format === 'image/jpeg') {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.drawImage(bitmap, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  // Browsers without a WebP encoder silently return PNG; fall back to JPEG then
+  let blob = await canvasToBlob(canvas, settings.format, settings.quality);
+  if (!blob || blob.type !== settings.format) {
+    blob = await canvasToBlob(canvas, 'image/jpeg', settings.quality);
+  }
+  if (!blob) throw new ImageProcessingError('encode_failed', file.name);
+
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  return new File([blob], `${baseName}.${EXTENSIONS[blob.type] || 'jpg'}`, { type: blob.type, lastModified: file.lastModified });
+};
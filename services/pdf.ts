@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Type definition for the global pdfjsLib loaded from the CDN in index.html
+declare global {
+  interface Window {
+    pdfjsLib: any;
+  }
+}
+
+// Renders pages at 2x so text stays legible for both the viewer and the model
+const RASTER_SCALE = 2;
+
+/** Opens a PDF from a data URL or object URL. */
+export const loadPdfDocument = async (src: string): Promise<any> => {
+  if (!window.pdfjsLib) {
+    throw new Error("PDF library is not initialised");
+  }
+  return window.pdfjsLib.getDocument(src).promise;
+};
+
+/** Draws one page (1-based) onto `canvas`, resizing the canvas to fit it. */
+export const renderPdfPage = async (pdf: any, pageNumber: number, canvas: HTMLCanvasElement, scale = RASTER_SCALE) => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+};
+
+/** Renders the given pages to PNG data URLs, in the order given. */
+export const rasterizePdfPages = async (src: string, pages: number[]): Promise<string[]> => {
+  const pdf = await loadPdfDocument(src);
+  const canvas = document.createElement('canvas');
+  const images: string[] = [];
+  for (const pageNumber of pages) {
+    await renderPdfPage(pdf, pageNumber, canvas);
+    images.push(canvas.toDataURL('image/png'));
+  }
+  return images;
+};
@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const BRIDGE_SOURCE = 'bring-to-life-preview';
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export interface ConsoleEntry {
+  id: number;
+  level: ConsoleLevel;
+  message: string;
+  // Uncaught errors and unhandled rejections, as opposed to console.error calls
+  uncaught?: boolean;
+  timestamp: number;
+}
+
+/** An element picked in the preview, identified well enough for the model to find it. */
+export interface ElementTarget {
+  selector: string;
+  // outerHTML, truncated for very large elements
+  html: string;
+  // Short human-readable description, e.g. `button "开始游戏"`
+  label: string;
+}
+
+interface ConsoleMessage {
+  source: typeof BRIDGE_SOURCE;
+  type: 'console';
+  level: ConsoleLevel;
+  message: string;
+  uncaught?: boolean;
+}
+
+interface ElementMessage extends ElementTarget {
+  source: typeof BRIDGE_SOURCE;
+  type: 'element';
+}
+
+// Sent when the user leaves inspect mode from inside the preview (Escape)
+interface InspectExitMessage {
+  source: typeof BRIDGE_SOURCE;
+  type: 'inspect-exit';
+}
+
+/** Messages posted by the preview to the app. */
+export type BridgeMessage = ConsoleMessage | ElementMessage | InspectExitMessage;
+
+// Runs inside the preview before any generated code. Kept as plain ES5 so it
+// works no matter what the generated document does to the page.
+const BRIDGE_SCRIPT = `(function () {
+  var SOURCE = ${JSON.stringify(BRIDGE_SOURCE)};
+  var MAX_LENGTH = 2000;
+  function format(value) {
+    if (value instanceof Error) return value.stack || (value.name + ': ' + value.message);
+    if (typeof value === 'string') return value;
+    try { return JSON.stringify(value); } catch (e) { return String(value); }
+  }
+  function post(data) {
+    data.source = SOURCE;
+    try { parent.postMessage(data, '*'); } catch (e) {}
+  }
+  function send(level, args, uncaught) {
+    var message = Array.prototype.map.call(args, format).join(' ');
+    if (message.length > MAX_LENGTH) message = message.slice(0, MAX_LENGTH) + '…';
+    post({ type: 'console', level: level, message: message, uncaught: uncaught });
+  }
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      send(level, arguments, false);
+      if (original) original.apply(console, arguments);
+    };
+  });
+  window.addEventListener('error', function (event) {
+    var location = event.filename ? ' (' + (event.lineno || 0) + ':' + (event.colno || 0) + ')' : '';
+    send('error', [event.error || (event.message + location)], true);
+  });
+  window.addEventListener('unhandledrejection', function (event) {
+    send('error', ['Unhandled promise rejection:', event.reason], true);
+  });
+
+  // Inspect mode: the app toggles it, hovering outlines elements and clicking
+  // reports the element instead of letting the page handle the click.
+  var MAX_ELEMENT_HTML = 4000;
+  var inspecting = false;
+  var highlight = null;
+  function isUnique(selector) {
+    try { return document.querySelectorAll(selector).length === 1; } catch (e) { return false; }
+  }
+  // An id where one identifies the element, otherwise a tag path with nth-of-type
+  function selectorFor(element) {
+    var parts = [];
+    for (var node = element; node && node !== document.documentElement; node = node.parentElement) {
+      if (node.id && isUnique('#' + CSS.escape(node.id))) {
+        parts.unshift('#' + CSS.escape(node.id));
+        break;
+      }
+      var part = node.tagName.toLowerCase();
+      var siblings = node.parentElement ? node.parentElement.children : [];
+      var index = 0, count = 0;
+      for (var i = 0; i < siblings.length; i++) {
+        if (siblings[i].tagName !== node.tagName) continue;
+        count++;
+        if (siblings[i] === node) index = count;
+      }
+      if (count > 1) part += ':nth-of-type(' + index + ')';
+      parts.unshift(part);
+    }
+    return parts.join(' > ');
+  }
+  function describe(element) {
+    var text = (element.textContent || '').replace(/\\s+/g, ' ').trim();
+    if (text.length > 24) text = text.slice(0, 24) + '…';
+    return element.tagName.toLowerCase() + (element.id ? '#' + element.id : '') + (text ? ' "' + text + '"' : '');
+  }
+  function targetOf(event) {
+    var element = event.target;
+    return element && element.nodeType === 1 && element !== document.documentElement ? element : null;
+  }
+  function showHighlight(element) {
+    if (!highlight) {
+      highlight = document.createElement('div');
+      highlight.style.cssText = 'position:fixed;z-index:2147483647;pointer-events:none;box-sizing:border-box;border:2px solid #3b82f6;background:rgba(59,130,246,0.15);border-radius:2px';
+      document.documentElement.appendChild(highlight);
+    }
+    var rect = element.getBoundingClientRect();
+    highlight.style.display = 'block';
+    highlight.style.left = rect.left + 'px';
+    highlight.style.top = rect.top + 'px';
+    highlight.style.width = rect.width + 'px';
+    highlight.style.height = rect.height + 'px';
+  }
+  function setInspecting(enabled) {
+    inspecting = enabled;
+    document.documentElement.style.cursor = enabled ? 'crosshair' : '';
+    if (!enabled && highlight) highlight.style.display = 'none';
+  }
+  function block(event) {
+    if (!inspecting) return;
+    event.preventDefault();
+    event.stopImmediatePropagation();
+  }
+  window.addEventListener('mousemove', function (event) {
+    var element = inspecting && targetOf(event);
+    if (element) showHighlight(element);
+  }, true);
+  ['mousedown', 'mouseup', 'pointerdown', 'pointerup', 'dblclick', 'submit'].forEach(function (type) {
+    window.addEventListener(type, block, true);
+  });
+  window.addEventListener('click', function (event) {
+    if (!inspecting) return;
+    block(event);
+    var element = targetOf(event);
+    if (!element) return;
+    var html = element.outerHTML;
+    if (html.length > MAX_ELEMENT_HTML) html = html.slice(0, MAX_ELEMENT_HTML) + '…';
+    post({ type: 'element', selector: selectorFor(element), html: html, label: describe(element) });
+  }, true);
+  window.addEventListener('keydown', function (event) {
+    if (!inspecting || event.key !== 'Escape') return;
+    setInspecting(false);
+    post({ type: 'inspect-exit' });
+  }, true);
+  window.addEventListener('message', function (event) {
+    if (event.source !== parent || !event.data || event.data.source !== SOURCE) return;
+    if (event.data.type === 'inspect') setInspecting(!!event.data.enabled);
+  });
+})();`;
+
+// Pass as `headMarkup` to preparePreviewHtml so it runs before the document's own scripts
+export const BRIDGE_TAG = `<script>${BRIDGE_SCRIPT}</script>`;
+
+export const isBridgeMessage = (data: unknown): data is BridgeMessage =>
+  typeof data === 'object' && data !== null && (data as BridgeMessage).source === BRIDGE_SOURCE;
+
+/** Turns inspect mode on or off in a preview frame running the bridge. */
+export const setInspectMode = (frame: HTMLIFrameElement | null, enabled: boolean) => {
+  // The preview has an opaque origin, so it can only be addressed with '*'
+  frame?.contentWindow?.postMessage({ source: BRIDGE_SOURCE, type: 'inspect', enabled }, '*');
+};
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Sandbox flags for every iframe that renders generated HTML. `allow-same-origin`
+ * is deliberately absent: the document gets an opaque origin, so model-written
+ * code cannot read this app's localStorage (API keys, history) or IndexedDB.
+ * Popups are only allowed with network access: a window opened from the preview
+ * is not bound by its CSP, so it could carry data out in the URL it navigates to.
+ */
+export const getPreviewSandbox = (allowNetwork: boolean) =>
+  `allow-scripts allow-forms allow-modals${allowNetwork ? ' allow-popups' : ''}`;
+
+// CDNs the generation prompt allows for scripts, styles and fonts.
+// Known gap: jsdelivr, unpkg and cdnjs serve arbitrary npm packages, so the locked
+// policy limits where code comes from, not what it is. Blocking connect-src,
+// img-src, form-action and popups is what keeps data from leaving the page.
+const TRUSTED_CDNS = [
+  'https://cdn.tailwindcss.com',
+  'https://cdn.jsdelivr.net',
+  'https://unpkg.com',
+  'https://cdnjs.cloudflare.com',
+  'https://fonts.googleapis.com',
+  'https://fonts.gstatic.com',
+].join(' ');
+
+// Default policy: no fetch/XHR/WebSocket, no external images or media, no form
+// posts. Only well-known CDNs may serve code, styles and fonts.
+const LOCKED_CSP = [
+  "default-src 'none'",
+  `script-src 'unsafe-inline' 'unsafe-eval' blob: ${TRUSTED_CDNS}`,
+  `style-src 'unsafe-inline' ${TRUSTED_CDNS}`,
+  `font-src data: ${TRUSTED_CDNS}`,
+  "img-src data: blob:",
+  "media-src data: blob:",
+  "connect-src 'none'",
+  "form-action 'none'",
+  "worker-src blob:",
+].join('; ');
+
+// Opt-in policy for creations that genuinely need the network
+const RELAXED_CSP = [
+  "default-src * data: blob: 'unsafe-inline' 'unsafe-eval'",
+  "connect-src *",
+  "img-src * data: blob:",
+].join('; ');
+
+export const getPreviewCsp = (allowNetwork: boolean) => allowNetwork ? RELAXED_CSP : LOCKED_CSP;
+
+// Opaque-origin documents throw on any localStorage access. Generated apps use
+// it a lot (high scores, todo lists), so swap in an in-memory stand-in.
+const STORAGE_SHIM = `(function () {
+  function createStorage() {
+    var data = {};
+    return {
+      getItem: function (key) { return Object.prototype.hasOwnProperty.call(data, key) ? data[key] : null; },
+      setItem: function (key, value) { data[key] = String(value); },
+      removeItem: function (key) { delete data[key]; },
+      clear: function () { data = {}; },
+      key: function (index) { return Object.keys(data)[index] || null; },
+      get length() { return Object.keys(data).length; }
+    };
+  }
+  ['localStorage', 'sessionStorage'].forEach(function (name) {
+    try { window[name].getItem('__probe__'); }
+    catch (e) { Object.defineProperty(window, name, { value: createStorage(), configurable: true }); }
+  });
+})();`;
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+// Comments and raw-text elements may contain tag-like text. Blanking them out
+// (keeping offsets) leaves only real tags for the searches below.
+const maskInertContent = (html: string) =>
+  html.replace(/<!--[\s\S]*?(?:-->|$)|<(script|style|textarea|title)\b[^>]*>[\s\S]*?(?:<\/\1\s*>|$)/gi, match => ' '.repeat(match.length));
+
+// An opening tag with exactly this name, so `head` does not match `<header>`
+const findTag = (masked: string, name: string) => new RegExp(`<${name}(?:\\s[^>]*)?>`, 'i').exec(masked);
+
+const insertAt = (html: string, index: number, markup: string) => html.slice(0, index) + markup + html.slice(index);
+
+/**
+ * Inserts markup at the very start of the document's <head>, creating one if
+ * needed. Tags after the body has started are ignored: a CSP <meta> outside the
+ * head has no effect, so the policy must never land there.
+ */
+export const injectIntoHead = (html: string, markup: string): string => {
+  const masked = maskInertContent(html);
+  const bodyIndex = masked.search(/<body[\s>]/i);
+  const isBeforeBody = (match: RegExpExecArray | null): match is RegExpExecArray =>
+    !!match && (bodyIndex === -1 || match.index < bodyIndex);
+
+  const headMatch = findTag(masked, 'head');
+  if (isBeforeBody(headMatch)) {
+    return insertAt(html, headMatch.index + headMatch[0].length, markup);
+  }
+  const htmlMatch = findTag(masked, 'html');
+  if (isBeforeBody(htmlMatch)) {
+    return insertAt(html, htmlMatch.index + htmlMatch[0].length, `<head>${markup}</head>`);
+  }
+  // Anything before the doctype would switch the page to quirks mode; right after
+  // it, the parser opens an implicit <head> for the policy
+  const doctypeMatch = /^\s*<!DOCTYPE[^>]*>/i.exec(masked);
+  return insertAt(html, doctypeMatch ? doctypeMatch[0].length : 0, markup);
+};
+
+export interface PreviewOptions {
+  allowNetwork?: boolean;
+  // Extra markup (e.g. the console bridge) placed right after the policy
+  headMarkup?: string;
+}
+
+/**
+ * Prepares generated HTML for rendering in a preview iframe: the CSP comes
+ * first so it governs everything after it, then the storage shim, then any
+ * extra markup, then the document's own head.
+ */
+export const preparePreviewHtml = (html: string, options: PreviewOptions = {}): string => {
+  const csp = `<meta http-equiv="Content-Security-Policy" content="${escapeAttribute(getPreviewCsp(!!options.allowNetwork))}">`;
+  return injectIntoHead(html, csp + `<script>${STORAGE_SHIM}</script>` + (options.headMarkup || ''));
+};
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { GenerationRequest, ModelProvider, ProviderConfig } from './types';
+import { GenerationError } from '../errors';
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+// Gemini reports blocks and truncation on the response rather than as errors
+const checkResponse = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new GenerationError('safety', `Prompt blocked: ${blockReason}`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+    throw new GenerationError('safety', `Response blocked: ${finishReason}`);
+  }
+  if (finishReason === 'MAX_TOKENS') {
+    throw new GenerationError('truncated', 'Response hit the output token limit');
+  }
+};
+
+export const createGeminiProvider = (config: ProviderConfig): ModelProvider => {
+  if (!config.apiKey) {
+    throw new GenerationError('missing_key');
+  }
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+
+  const toParams = (request: GenerationRequest) => ({
+    model: config.model,
+    contents: {
+      parts: request.parts
+    },
+    config: {
+      systemInstruction: request.systemInstruction,
+      temperature: request.temperature,
+      abortSignal: request.signal,
+    },
+  });
+
+  return {
+    kind: 'gemini',
+
+    async generate(request) {
+      const response: GenerateContentResponse = await ai.models.generateContent(toParams(request));
+      checkResponse(response);
+      return response.text || '';
+    },
+
+    async *generateStream(request) {
+      const stream = await ai.models.generateContentStream(toParams(request));
+      for await (const chunk of stream) {
+        checkResponse(chunk);
+        if (chunk.text) yield chunk.text;
+      }
+    },
+
+    async validate() {
+      // Minimal generation to test access
+      await ai.models.generateContent({
+        model: config.model,
+        contents: { parts: [{ text: "test" }] },
+      });
+      return true;
+    },
+  };
+};
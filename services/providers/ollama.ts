@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GenerationRequest, ModelProvider, ProviderConfig } from './types';
+import { ensureOk, readLines } from './stream';
+import { GenerationError } from '../errors';
+
+const checkDoneReason = (reason?: string) => {
+  if (reason === 'length') {
+    throw new GenerationError('truncated', 'Response hit the context/output limit');
+  }
+};
+
+// Talks to a local Ollama-style server. Nothing leaves the machine, which is
+// what makes this provider suitable for confidential inputs.
+export const createOllamaProvider = (config: ProviderConfig): ModelProvider => {
+  const baseUrl = (config.baseUrl || 'http://localhost:11434').replace(/\/+$/, '');
+
+  const toMessages = (request: GenerationRequest) => {
+    const text: string[] = [];
+    const images: string[] = [];
+    for (const part of request.parts) {
+      if ('text' in part) {
+        text.push(part.text);
+      } else if (part.inlineData.mimeType.startsWith('image/')) {
+        images.push(part.inlineData.data);
+      } else {
+        throw new GenerationError('unsupported_input', `Unsupported attachment: ${part.inlineData.mimeType}`);
+      }
+    }
+    return [
+      { role: 'system', content: request.systemInstruction },
+      { role: 'user', content: text.join('\n\n'), ...(images.length ? { images } : {}) }
+    ];
+  };
+
+  const post = (request: GenerationRequest, stream: boolean) =>
+    fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model,
+        messages: toMessages(request),
+        options: { temperature: request.temperature },
+        stream,
+      }),
+      signal: request.signal,
+    }).then(ensureOk);
+
+  return {
+    kind: 'ollama',
+
+    async generate(request) {
+      const response = await post(request, false);
+      const data = await response.json();
+      checkDoneReason(data.done_reason);
+      return data.message?.content || '';
+    },
+
+    async *generateStream(request) {
+      const response = await post(request, true);
+      for await (const line of readLines(response)) {
+        const data = JSON.parse(line);
+        if (data.error) throw new GenerationError('unknown', data.error);
+        if (data.message?.content) yield data.message.content;
+        if (data.done) {
+          checkDoneReason(data.done_reason);
+          return;
+        }
+      }
+    },
+
+    async validate() {
+      // Reaching the server is not enough: the configured model must also be pulled
+      const response = await fetch(`${baseUrl}/api/tags`).then(ensureOk);
+      const data: { models?: { name: string }[] } = await response.json();
+      return (data.models || []).some(({ name }) => name === config.model || name === `${config.model}:latest`);
+    },
+  };
+};
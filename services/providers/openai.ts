@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GenerationRequest, ModelProvider, ProviderConfig } from './types';
+import { ensureOk, readLines } from './stream';
+import { GenerationError } from '../errors';
+
+const checkFinishReason = (reason?: string | null) => {
+  if (reason === 'content_filter') {
+    throw new GenerationError('safety', 'Response blocked by the content filter');
+  }
+  if (reason === 'length') {
+    throw new GenerationError('truncated', 'Response hit the output token limit');
+  }
+};
+
+// Works with any endpoint that speaks the OpenAI chat completions protocol
+// (OpenAI itself, OpenRouter, vLLM, LM Studio, ...).
+export const createOpenAIProvider = (config: ProviderConfig): ModelProvider => {
+  const baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+
+  const headers = (): Record<string, string> => {
+    const result: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) result['Authorization'] = `Bearer ${config.apiKey}`;
+    return result;
+  };
+
+  const toMessages = (request: GenerationRequest) => {
+    const content = request.parts.map(part => {
+      if ('text' in part) {
+        return { type: 'text', text: part.text };
+      }
+      if (!part.inlineData.mimeType.startsWith('image/')) {
+        throw new GenerationError('unsupported_input', `Unsupported attachment: ${part.inlineData.mimeType}`);
+      }
+      return {
+        type: 'image_url',
+        image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` }
+      };
+    });
+    return [
+      { role: 'system', content: request.systemInstruction },
+      { role: 'user', content }
+    ];
+  };
+
+  const post = (request: GenerationRequest, stream: boolean) =>
+    fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify({
+        model: config.model,
+        messages: toMessages(request),
+        temperature: request.temperature,
+        stream,
+      }),
+      signal: request.signal,
+    }).then(ensureOk);
+
+  return {
+    kind: 'openai',
+
+    async generate(request) {
+      const response = await post(request, false);
+      const data = await response.json();
+      checkFinishReason(data.choices?.[0]?.finish_reason);
+      return data.choices?.[0]?.message?.content || '';
+    },
+
+    async *generateStream(request) {
+      const response = await post(request, true);
+      for await (const line of readLines(response)) {
+        if (!line.startsWith('data:')) continue;
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') return;
+        const choice = JSON.parse(payload).choices?.[0];
+        checkFinishReason(choice?.finish_reason);
+        if (choice?.delta?.content) yield choice.delta.content;
+      }
+    },
+
+    async validate() {
+      await fetch(`${baseUrl}/models`, { headers: headers() }).then(ensureOk);
+      return true;
+    },
+  };
+};
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { KeyProfile, loadProviderSettings, requiresApiKey } from './registry';
+
+export type ProfileStatus = 'unknown' | 'checking' | 'valid' | 'invalid' | 'rate_limited';
+
+// How long a rate-limited profile is skipped before failover considers it again
+const RATE_LIMIT_COOLDOWN_MS = 60 * 1000;
+
+// Health is tracked for this session only; quotas reset and keys get fixed
+const statuses = new Map<string, { status: ProfileStatus; updatedAt: number }>();
+const listeners = new Set<() => void>();
+
+export const getProfileStatus = (id: string): ProfileStatus => {
+  const entry = statuses.get(id);
+  if (!entry) return 'unknown';
+  if (entry.status === 'rate_limited' && Date.now() - entry.updatedAt > RATE_LIMIT_COOLDOWN_MS) return 'unknown';
+  return entry.status;
+};
+
+export const setProfileStatus = (id: string, status: ProfileStatus) => {
+  statuses.set(id, { status, updatedAt: Date.now() });
+  listeners.forEach(listener => listener());
+};
+
+/** Calls `listener` whenever a status changes; returns the unsubscribe function. */
+export const subscribeProfileStatus = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const isHealthy = (profile: KeyProfile) => {
+  if (requiresApiKey(profile.kind) && !profile.apiKey) return false;
+  const status = getProfileStatus(profile.id);
+  return status !== 'invalid' && status !== 'rate_limited';
+};
+
+/**
+ * The first healthy profile after `currentId` in the saved order (wrapping
+ * around), skipping any in `exclude`. Null when every other profile is down.
+ */
+export const getNextHealthyProfile = (currentId: string, exclude: Set<string> = new Set()): KeyProfile | null => {
+  const { profiles } = loadProviderSettings();
+  const start = profiles.findIndex(profile => profile.id === currentId);
+  for (let offset = 1; offset < profiles.length; offset++) {
+    const candidate = profiles[(start + offset) % profiles.length];
+    if (!exclude.has(candidate.id) && isHealthy(candidate)) return candidate;
+  }
+  return null;
+};
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ModelProvider, ProviderConfig, ProviderKind } from './types';
+import { createGeminiProvider } from './gemini';
+import { createOpenAIProvider } from './openai';
+import { createOllamaProvider } from './ollama';
+import { VaultSecrets, createVault, getVaultSecrets, isVaultEnabled, removeVault, writeVaultSecrets } from '../vault';
+
+const SETTINGS_KEY = 'model_provider_settings';
+const LEGACY_GEMINI_KEY = 'user_gemini_api_key';
+
+// A named provider configuration; teams can keep several keys with different quotas
+export interface KeyProfile extends ProviderConfig {
+  id: string;
+  label?: string;
+}
+
+export interface ProviderSettings {
+  activeId: string;
+  profiles: KeyProfile[];
+}
+
+export const PROVIDER_LABELS: Record<ProviderKind, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI 兼容',
+  ollama: 'Ollama 本地',
+};
+
+// Providers that cannot work without an API key
+export const requiresApiKey = (kind: ProviderKind) => kind === 'gemini';
+
+export const DEFAULT_PROVIDER_CONFIGS: Record<ProviderKind, ProviderConfig> = {
+  // 2.0 Flash is faster and free-tier friendly; any Gemini model id works here.
+  gemini: { kind: 'gemini', model: 'gemini-2.0-flash' },
+  openai: { kind: 'openai', model: 'gpt-4o', baseUrl: 'https://api.openai.com/v1' },
+  ollama: { kind: 'ollama', model: 'llama3.2-vision', baseUrl: 'http://localhost:11434' },
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  activeId: 'gemini',
+  profiles: [{ id: 'gemini', ...DEFAULT_PROVIDER_CONFIGS.gemini }],
+};
+
+export const createProfile = (kind: ProviderKind): KeyProfile => ({
+  id: crypto.randomUUID(),
+  ...DEFAULT_PROVIDER_CONFIGS[kind],
+});
+
+export const getProfileLabel = (profile: KeyProfile) =>
+  profile.label || `${PROVIDER_LABELS[profile.kind]} · ${profile.model}`;
+
+// Keys are stored per profile id
+const extractKeys = (settings: ProviderSettings): VaultSecrets => {
+  const secrets: VaultSecrets = {};
+  for (const profile of settings.profiles) {
+    if (profile.apiKey) secrets[profile.id] = profile.apiKey;
+  }
+  return secrets;
+};
+
+const withKeys = (settings: ProviderSettings, secrets: VaultSecrets): ProviderSettings => ({
+  ...settings,
+  profiles: settings.profiles.map(profile => ({ ...profile, apiKey: secrets[profile.id] })),
+});
+
+// Keys never reach plaintext storage while the vault is enabled
+const writeSettings = (settings: ProviderSettings) => {
+  const stored = isVaultEnabled() ? withKeys(settings, {}) : settings;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(stored));
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  let settings: ProviderSettings = DEFAULT_PROVIDER_SETTINGS;
+
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  if (saved) {
+    try {
+      const parsed = JSON.parse(saved);
+      if (parsed.profiles?.length) {
+        settings = { activeId: parsed.activeId, profiles: parsed.profiles };
+      }
+    } catch (e) {
+      console.error("Failed to load provider settings", e);
+    }
+  }
+
+  // Migrate the key saved by older versions, which only supported Gemini.
+  // A plaintext key has no place next to an encrypted vault, so it is just dropped then.
+  const legacyKey = localStorage.getItem(LEGACY_GEMINI_KEY);
+  if (legacyKey) {
+    const gemini = settings.profiles.find(profile => profile.kind === 'gemini');
+    if (!isVaultEnabled() && gemini && !gemini.apiKey) {
+      settings = withKeys(settings, { ...extractKeys(settings), [gemini.id]: legacyKey });
+      writeSettings(settings);
+    }
+    localStorage.removeItem(LEGACY_GEMINI_KEY);
+  }
+
+  // With the vault enabled, keys are only available once it has been unlocked
+  if (isVaultEnabled()) {
+    settings = withKeys(settings, getVaultSecrets());
+  }
+
+  return settings;
+};
+
+export const saveProviderSettings = async (settings: ProviderSettings) => {
+  if (isVaultEnabled()) {
+    await writeVaultSecrets(extractKeys(settings));
+  }
+  writeSettings(settings);
+};
+
+/** Moves every saved API key into a vault encrypted with `passphrase`. */
+export const enableKeyVault = async (passphrase: string) => {
+  const settings = loadProviderSettings();
+  await createVault(passphrase, extractKeys(settings));
+  writeSettings(settings);
+};
+
+/**
+ * Turns passphrase protection off. Keys from an unlocked vault go back to
+ * plain storage; a locked one (forgotten passphrase) loses its keys.
+ */
+export const disableKeyVault = () => {
+  const secrets = removeVault();
+  writeSettings(withKeys(loadProviderSettings(), secrets));
+};
+
+export const getActiveProfile = (): KeyProfile => {
+  const settings = loadProviderSettings();
+  return settings.profiles.find(profile => profile.id === settings.activeId) || settings.profiles[0];
+};
+
+export const getActiveProviderConfig = (): ProviderConfig => getActiveProfile();
+
+// Only the selection changes, so the vault (if any) does not need rewriting
+export const setActiveProfile = (id: string) => {
+  writeSettings({ ...loadProviderSettings(), activeId: id });
+};
+
+export const createProvider = (config: ProviderConfig): ModelProvider => {
+  switch (config.kind) {
+    case 'gemini':
+      return createGeminiProvider(config);
+    case 'openai':
+      return createOpenAIProvider(config);
+    case 'ollama':
+      return createOllamaProvider(config);
+  }
+};
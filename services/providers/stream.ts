@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GenerationError, classifyHttpStatus } from '../errors';
+
+export const ensureOk = async (response: Response): Promise<Response> => {
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new GenerationError(
+      classifyHttpStatus(response.status, body),
+      `${response.status} ${response.statusText}: ${body}`,
+      { status: response.status }
+    );
+  }
+  return response;
+};
+
+// Reads a streaming HTTP body line by line (used for SSE and NDJSON responses).
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) yield line;
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) yield buffer;
+}
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ProviderKind = 'gemini' | 'openai' | 'ollama';
+
+export type PromptPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+export interface GenerationRequest {
+  systemInstruction: string;
+  parts: PromptPart[];
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+/**
+ * A backend that can turn a prompt into text. Implementations only deal with
+ * transport; prompt construction and output cleanup live in services/gemini.ts.
+ */
+export interface ModelProvider {
+  readonly kind: ProviderKind;
+  generate(request: GenerationRequest): Promise<string>;
+  // Yields text deltas (not the accumulated text) as they arrive.
+  generateStream(request: GenerationRequest): AsyncGenerator<string>;
+  // Performs a cheap request to check that the endpoint and credentials work.
+  validate(): Promise<boolean>;
+}
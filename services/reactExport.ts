@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation } from '../components/CreationHistory';
+import { GenerationOptions, convertToReact } from './gemini';
+import { toSafeFileName } from './exporters';
+import { ZipEntry, createZip } from './zip';
+
+export type ReactConversionErrorKind = 'invalid_output' | 'validator_unavailable';
+
+export class ReactConversionError extends Error {
+  readonly kind: ReactConversionErrorKind;
+  // What validation found wrong with the final attempt
+  readonly problems: string[];
+
+  constructor(kind: ReactConversionErrorKind, problems: string[] = []) {
+    super(problems.length ? `${kind}: ${problems.join('; ')}` : kind);
+    this.name = 'ReactConversionError';
+    this.kind = kind;
+    this.problems = problems;
+  }
+}
+
+const FILE_MARKER = /^=====\s*FILE:\s*(.+?)\s*=====\s*$/gm;
+const ALLOWED_PACKAGES = ['react', 'react-dom', 'react/jsx-runtime', 'react-dom/client'];
+// Scaffold files the model is told not to write; ours win if it does anyway
+const SCAFFOLD_PATHS = ['package.json', 'index.html', 'vite.config.ts', 'tsconfig.json', 'src/main.tsx', 'src/vite-env.d.ts'];
+
+// Models sometimes wrap each file in a fence despite the instructions
+const stripFence = (content: string) =>
+  content.trim().replace(/^```[\w-]*\n/, '').replace(/\n```$/, '') + '\n';
+
+/** Splits the model's "===== FILE: path =====" blocks into a path -> contents map. */
+export const parseFileBlocks = (output: string): Map<string, string> => {
+  const files = new Map<string, string>();
+  const markers = [...output.matchAll(FILE_MARKER)];
+  markers.forEach((marker, i) => {
+    const path = marker[1].replace(/^\.?\//, '');
+    const end = i + 1 < markers.length ? markers[i + 1].index : output.length;
+    files.set(path, stripFence(output.slice(marker.index! + marker[0].length, end)));
+  });
+  return files;
+};
+
+// Resolves a relative import from `fromPath` to a file in the set, the way Vite would
+const resolveImport = (files: Map<string, string>, fromPath: string, specifier: string) => {
+  const segments = fromPath.split('/').slice(0, -1);
+  for (const part of specifier.split('/')) {
+    if (part === '..') segments.pop();
+    else if (part !== '.') segments.push(part);
+  }
+  const base = segments.join('/');
+  return ['', '.tsx', '.ts', '/index.tsx', '/index.ts'].some(suffix => files.has(base + suffix));
+};
+
+const IMPORT_PATTERN = /(?:import|export)\s[^'"]*?from\s*['"]([^'"]+)['"]|import\s*['"]([^'"]+)['"]/g;
+
+/**
+ * Checks that the converted project is usable: an App entry exists, every
+ * TS/TSX file parses, relative imports point at files that were returned and
+ * nothing beyond React is imported.
+ */
+export const validateReactFiles = async (files: Map<string, string>): Promise<string[]> => {
+  const problems: string[] = [];
+  if (!files.size) return ["No file blocks were found in the response."];
+  if (!files.has('src/App.tsx')) problems.push("src/App.tsx is missing.");
+
+  // Babel is only needed to check the converted files parse, so it is split into its own chunk
+  let Babel: typeof import('@babel/standalone');
+  try {
+    Babel = await import('@babel/standalone');
+  } catch (error) {
+    console.error("Failed to load Babel:", error);
+    throw new ReactConversionError('validator_unavailable');
+  }
+
+  for (const [path, content] of files) {
+    if (!path.startsWith('src/') || path.split('/').includes('..')) {
+      problems.push(`${path}: files must live under src/.`);
+      continue;
+    }
+    if (!/\.tsx?$/.test(path)) continue;
+
+    try {
+      Babel.transform(content, {
+        filename: path,
+        presets: [['typescript', { isTSX: path.endsWith('.tsx'), allExtensions: true }], 'react'],
+      });
+    } catch (error) {
+      problems.push(`${path}: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`);
+      continue;
+    }
+
+    for (const match of content.matchAll(IMPORT_PATTERN)) {
+      const specifier = match[1] || match[2];
+      if (specifier.startsWith('.')) {
+        if (!resolveImport(files, path, specifier)) problems.push(`${path}: imports "${specifier}", which was not returned.`);
+      } else if (!ALLOWED_PACKAGES.includes(specifier)) {
+        problems.push(`${path}: imports the package "${specifier}"; only React is available.`);
+      }
+    }
+  }
+  return problems;
+};
+
+/**
+ * Runs the conversion pass and validates the result. One failed validation is
+ * sent back to the model for a corrected attempt before giving up.
+ */
+export const convertCreationToReact = async (creation: Creation, options: GenerationOptions = {}): Promise<Map<string, string>> => {
+  let output = await convertToReact(creation.html, {}, options);
+  let files = parseFileBlocks(output);
+  let problems = await validateReactFiles(files);
+  if (problems.length) {
+    output = await convertToReact(creation.html, { previousOutput: output, problems }, options);
+    files = parseFileBlocks(output);
+    problems = await validateReactFiles(files);
+  }
+  if (problems.length) throw new ReactConversionError('invalid_output', problems);
+  return files;
+};
+
+// External <script src> and stylesheet <link>s (Tailwind CDN, fonts) the app still relies on
+const externalHeadTags = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return [
+    ...Array.from(doc.querySelectorAll('script[src]')),
+    ...Array.from(doc.querySelectorAll('link[rel="stylesheet"][href]')),
+  ]
+    .filter(element => /^https?:\/\//.test(element.getAttribute('src') || element.getAttribute('href') || ''))
+    .map(element => `    ${element.outerHTML}`);
+};
+
+/** Packages the converted files into a Vite + React + TypeScript project zip. */
+export const buildReactProject = (creation: Creation, files: Map<string, string>): Blob => {
+  const root = `${toSafeFileName(creation.name)}-react`;
+  const title = new DOMParser().parseFromString(creation.html, 'text/html').title || creation.name;
+  const hasIndexCss = files.has('src/index.css');
+
+  const scaffold: Record<string, string> = {
+    'package.json': JSON.stringify({
+      name: 'bring-to-life-react-app',
+      private: true,
+      version: '0.1.0',
+      type: 'module',
+      scripts: { dev: 'vite', build: 'tsc -b && vite build', preview: 'vite preview' },
+      dependencies: { react: '^18.3.1', 'react-dom': '^18.3.1' },
+      devDependencies: {
+        '@types/react': '^18.3.3',
+        '@types/react-dom': '^18.3.0',
+        '@vitejs/plugin-react': '^4.3.1',
+        typescript: '^5.5.3',
+        vite: '^5.4.1',
+      },
+    }, null, 2),
+    'vite.config.ts': "import { defineConfig } from 'vite';\nimport react from '@vitejs/plugin-react';\n\nexport default defineConfig({\n  plugins: [react()],\n});\n",
+    'tsconfig.json': JSON.stringify({
+      compilerOptions: {
+        target: 'ES2020',
+        lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+        module: 'ESNext',
+        moduleResolution: 'bundler',
+        jsx: 'react-jsx',
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+        isolatedModules: true,
+      },
+      include: ['src'],
+    }, null, 2),
+    'index.html': [
+      '<!DOCTYPE html>',
+      '<html lang="zh-CN">',
+      '  <head>',
+      '    <meta charset="UTF-8" />',
+      '    <meta name="viewport" content="width=device-width, initial-scale=1.0" />',
+      `    <title>${title.replace(/</g, '&lt;')}</title>`,
+      ...externalHeadTags(creation.html),
+      '  </head>',
+      '  <body>',
+      '    <div id="root"></div>',
+      '    <script type="module" src="/src/main.tsx"></script>',
+      '  </body>',
+      '</html>',
+      '',
+    ].join('\n'),
+    'src/main.tsx': [
+      "import React from 'react';",
+      "import ReactDOM from 'react-dom/client';",
+      "import App from './App';",
+      ...(hasIndexCss ? ["import './index.css';"] : []),
+      '',
+      "ReactDOM.createRoot(document.getElementById('root')!).render(",
+      '  <React.StrictMode>',
+      '    <App />',
+      '  </React.StrictMode>,',
+      ');',
+      '',
+    ].join('\n'),
+    'src/vite-env.d.ts': '/// <reference types="vite/client" />\n',
+  };
+
+  const entries: ZipEntry[] = [
+    ...Object.entries(scaffold).map(([path, data]) => ({ path, data })),
+    ...[...files].filter(([path]) => !SCAFFOLD_PATHS.includes(path)).map(([path, data]) => ({ path, data })),
+  ];
+  return createZip(entries.map(entry => ({ ...entry, path: `${root}/${entry.path}` })));
+};
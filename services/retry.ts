@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GenerationError, classifyError } from './errors';
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, error: GenerationError) => void;
+  // Overrides `error.retryable`, e.g. to fail fast when there is a fallback to switch to.
+  isRetryable?: (error: GenerationError) => boolean;
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+
+// Exponential backoff with full jitter: 0..base * 2^attempt
+export const backoffDelay = (attempt: number, baseDelayMs = DEFAULT_BASE_DELAY_MS) =>
+  Math.round(Math.random() * baseDelayMs * 2 ** attempt);
+
+// Resolves after `ms`, or rejects early with the signal's AbortError
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Decides whether a failed attempt should be retried. Returns the classified
+ * error to rethrow when it should not, or waits out the backoff and returns
+ * null when it should.
+ */
+export const shouldRetry = async (error: unknown, attempt: number, options: RetryOptions): Promise<unknown> => {
+  const classified = classifyError(error);
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const isRetryable = options.isRetryable || ((failure: GenerationError) => failure.retryable);
+  if (options.signal?.aborted || !(classified instanceof GenerationError) || !isRetryable(classified) || attempt >= retries) {
+    return classified;
+  }
+  options.onRetry?.(attempt + 1, classified);
+  await sleep(backoffDelay(attempt, options.baseDelayMs), options.signal);
+  return null;
+};
+
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const failure = await shouldRetry(error, attempt, options);
+      if (failure) throw failure;
+    }
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Sketches are stored as vectors so they can be reopened and edited later;
+// the PNG sent to the model is rendered from this on demand.
+
+export type SketchTool = 'pen' | 'line' | 'rect' | 'ellipse' | 'text' | 'eraser';
+
+export interface SketchPoint {
+  x: number;
+  y: number;
+}
+
+export type SketchShape =
+  // Freehand pen or eraser path; erasing only clears its own layer
+  | { type: 'stroke'; points: SketchPoint[]; color: string; width: number; erase?: boolean }
+  | { type: 'line' | 'rect' | 'ellipse'; from: SketchPoint; to: SketchPoint; color: string; width: number }
+  | { type: 'text'; at: SketchPoint; text: string; color: string; size: number };
+
+export interface SketchLayer {
+  id: string;
+  name: string;
+  visible: boolean;
+  shapes: SketchShape[];
+}
+
+export interface Sketch {
+  width: number;
+  height: number;
+  // Bottom-most first
+  layers: SketchLayer[];
+}
+
+const DEFAULT_WIDTH = 1280;
+const DEFAULT_HEIGHT = 800;
+
+export const createLayer = (name: string): SketchLayer => ({
+  id: crypto.randomUUID(),
+  name,
+  visible: true,
+  shapes: [],
+});
+
+export const createSketch = (): Sketch => ({
+  width: DEFAULT_WIDTH,
+  height: DEFAULT_HEIGHT,
+  layers: [createLayer('图层 1')],
+});
+
+export const drawShape = (context: CanvasRenderingContext2D, shape: SketchShape) => {
+  context.save();
+  context.strokeStyle = shape.color;
+  context.fillStyle = shape.color;
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+
+  switch (shape.type) {
+    case 'stroke': {
+      context.lineWidth = shape.width;
+      if (shape.erase) context.globalCompositeOperation = 'destination-out';
+      const [first, ...rest] = shape.points;
+      if (!first) break;
+      context.beginPath();
+      context.moveTo(first.x, first.y);
+      // A single click still leaves a dot
+      if (!rest.length) context.lineTo(first.x + 0.01, first.y);
+      for (const point of rest) context.lineTo(point.x, point.y);
+      context.stroke();
+      break;
+    }
+    case 'line':
+      context.lineWidth = shape.width;
+      context.beginPath();
+      context.moveTo(shape.from.x, shape.from.y);
+      context.lineTo(shape.to.x, shape.to.y);
+      context.stroke();
+      break;
+    case 'rect':
+      context.lineWidth = shape.width;
+      context.strokeRect(shape.from.x, shape.from.y, shape.to.x - shape.from.x, shape.to.y - shape.from.y);
+      break;
+    case 'ellipse':
+      context.lineWidth = shape.width;
+      context.beginPath();
+      context.ellipse(
+        (shape.from.x + shape.to.x) / 2,
+        (shape.from.y + shape.to.y) / 2,
+        Math.abs(shape.to.x - shape.from.x) / 2,
+        Math.abs(shape.to.y - shape.from.y) / 2,
+        0, 0, Math.PI * 2,
+      );
+      context.stroke();
+      break;
+    case 'text':
+      context.font = `${shape.size}px sans-serif`;
+      context.textBaseline = 'top';
+      shape.text.split('\n').forEach((line, i) => context.fillText(line, shape.at.x, shape.at.y + i * shape.size * 1.2));
+      break;
+  }
+  context.restore();
+};
+
+/**
+ * Draws the visible layers onto `canvas` over a white background. Each layer is
+ * rendered on its own so the eraser only cuts through the layer it was used on.
+ * `draft` is an in-progress shape drawn on top of the layer with id `draftLayerId`.
+ */
+export const renderSketch = (
+  sketch: Sketch,
+  canvas: HTMLCanvasElement,
+  draft?: { shape: SketchShape; layerId: string },
+) => {
+  canvas.width = sketch.width;
+  canvas.height = sketch.height;
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, sketch.width, sketch.height);
+
+  const layerCanvas = document.createElement('canvas');
+  layerCanvas.width = sketch.width;
+  layerCanvas.height = sketch.height;
+  const layerContext = layerCanvas.getContext('2d')!;
+
+  for (const layer of sketch.layers) {
+    if (!layer.visible) continue;
+    layerContext.clearRect(0, 0, sketch.width, sketch.height);
+    layer.shapes.forEach(shape => drawShape(layerContext, shape));
+    if (draft?.layerId === layer.id) drawShape(layerContext, draft.shape);
+    context.drawImage(layerCanvas, 0, 0);
+  }
+};
+
+/** Renders the sketch to a PNG file that can be staged like any uploaded image. */
+export const sketchToFile = async (sketch: Sketch, name: string): Promise<File> => {
+  const canvas = document.createElement('canvas');
+  renderSketch(sketch, canvas);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error("Failed to render sketch");
+  return new File([blob], name, { type: 'image/png' });
+};
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation, SourceInput } from '../components/CreationHistory';
+import { rasterizePdfPages } from './pdf';
+import { InlineInput } from './gemini';
+import { CropRect, canPreprocess, preprocessImage } from './imageProcessing';
+import { Sketch } from './sketch';
+import { documentToPromptText, getDocumentKind, parseDocument } from './documents';
+
+// A file picked for upload, with the PDF pages to include if only some were chosen
+// and, for images, the region to crop to. Drawn inputs carry the sketch the file was rendered from.
+export interface PendingInput {
+  file: File;
+  pages?: number[];
+  crop?: CropRect;
+  sketch?: Sketch;
+}
+
+export const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (typeof reader.result === 'string') {
+        resolve(reader.result);
+      } else {
+        reject(new Error('Failed to read file as a data URL'));
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/** Reads a picked file for sending and storage; images are cropped, downscaled and re-encoded first. */
+export const toSourceInput = async ({ file, pages, crop, sketch }: PendingInput): Promise<SourceInput> => {
+  const prepared = canPreprocess(file) ? await preprocessImage(file, crop) : file;
+  return {
+    name: file.name,
+    dataUrl: await readFileAsDataUrl(prepared),
+    pages,
+    sketch,
+  };
+};
+
+export const getMimeType = (dataUrl: string) =>
+  dataUrl.match(/^data:([^;,]+)/)?.[1]?.toLowerCase() || 'application/octet-stream';
+
+export const isPdfInput = (input: SourceInput) => getMimeType(input.dataUrl) === 'application/pdf';
+
+export const isImageInput = (input: SourceInput) => getMimeType(input.dataUrl).startsWith('image/');
+
+// Data files and text documents, which are parsed rather than sent as-is
+export const isDocumentInput = (input: SourceInput) =>
+  !isImageInput(input) && !isPdfInput(input) && getDocumentKind(input.name, getMimeType(input.dataUrl)) !== null;
+
+// Splits a data URL into the base64 payload and MIME type a prompt part needs
+const splitDataUrl = (dataUrl: string) => ({
+  data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+  mimeType: getMimeType(dataUrl),
+});
+
+/**
+ * The inline parts to send for one source file. A PDF with only some pages
+ * selected is sent as one image per selected page instead of the whole file,
+ * and data files and documents are parsed into a text part.
+ */
+export const toInlineData = async (input: SourceInput): Promise<InlineInput[]> => {
+  if (isDocumentInput(input)) {
+    return [{ text: documentToPromptText(input.name, await parseDocument(input.name, input.dataUrl)) }];
+  }
+  if (input.pages?.length && isPdfInput(input)) {
+    const images = await rasterizePdfPages(input.dataUrl, input.pages);
+    return images.map(splitDataUrl);
+  }
+  return [splitDataUrl(input.dataUrl)];
+};
+
+/** All source files of a creation in upload order, including the single image older creations stored. */
+export const getSourceInputs = (creation: Creation): SourceInput[] => {
+  if (creation.sourceInputs?.length) return creation.sourceInputs;
+  return creation.originalImage ? [{ name: creation.name, dataUrl: creation.originalImage }] : [];
+};
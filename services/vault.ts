@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { base64ToBytes, bytesToBase64 } from './encoding';
+
+const VAULT_KEY = 'api_key_vault';
+
+const PBKDF2_ITERATIONS = 600_000;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// API keys by key profile id, as held in the encrypted payload
+export type VaultSecrets = Record<string, string>;
+
+export type VaultStatus = 'disabled' | 'locked' | 'unlocked';
+
+interface StoredVault {
+  salt: string; // base64
+  iv: string; // base64
+  data: string; // base64 AES-GCM ciphertext of the JSON secrets
+  iterations: number;
+}
+
+export type VaultErrorKind = 'wrong_passphrase' | 'weak_passphrase' | 'locked';
+
+export class VaultError extends Error {
+  readonly kind: VaultErrorKind;
+
+  constructor(kind: VaultErrorKind, message?: string) {
+    super(message || kind);
+    this.name = 'VaultError';
+    this.kind = kind;
+  }
+}
+
+// The derived key and decrypted secrets live only in memory, so a reload locks the vault again
+let unlocked: { key: CryptoKey; vault: StoredVault; secrets: VaultSecrets } | null = null;
+
+const deriveKey = async (passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+const encrypt = async (key: CryptoKey, vault: Omit<StoredVault, 'iv' | 'data'>, secrets: VaultSecrets): Promise<StoredVault> => {
+  // A fresh IV for every write; reusing one with the same key breaks GCM
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(secrets)));
+  return { ...vault, iv: bytesToBase64(iv), data: bytesToBase64(data) };
+};
+
+const decrypt = async (key: CryptoKey, vault: StoredVault): Promise<VaultSecrets> => {
+  try {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(vault.iv) }, key, base64ToBytes(vault.data));
+    return JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    // GCM authentication fails when the key was derived from the wrong passphrase
+    throw new VaultError('wrong_passphrase');
+  }
+};
+
+const loadVault = (): StoredVault | null => {
+  try {
+    return JSON.parse(localStorage.getItem(VAULT_KEY) || 'null');
+  } catch (e) {
+    console.error("Failed to load key vault", e);
+    return null;
+  }
+};
+
+const openVault = async (passphrase: string, vault: StoredVault) => {
+  const key = await deriveKey(passphrase, base64ToBytes(vault.salt), vault.iterations);
+  return { key, vault, secrets: await decrypt(key, vault) };
+};
+
+export const isVaultEnabled = (): boolean => loadVault() !== null;
+
+export const getVaultStatus = (): VaultStatus =>
+  !isVaultEnabled() ? 'disabled' : unlocked ? 'unlocked' : 'locked';
+
+/** The decrypted keys, or an empty object while the vault is locked. */
+export const getVaultSecrets = (): VaultSecrets => ({ ...unlocked?.secrets });
+
+export const unlockVault = async (passphrase: string) => {
+  const vault = loadVault();
+  if (!vault) return;
+  unlocked = await openVault(passphrase, vault);
+};
+
+export const lockVault = () => {
+  unlocked = null;
+};
+
+/** Encrypts `secrets` under a new passphrase, replacing any existing vault, and leaves it unlocked. */
+export const createVault = async (passphrase: string, secrets: VaultSecrets) => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new VaultError('weak_passphrase', `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const vault = await encrypt(key, { salt: bytesToBase64(salt), iterations: PBKDF2_ITERATIONS }, secrets);
+  localStorage.setItem(VAULT_KEY, JSON.stringify(vault));
+  unlocked = { key, vault, secrets };
+};
+
+/** Re-encrypts the vault with the key derived at unlock time, so no passphrase prompt is needed. */
+export const writeVaultSecrets = async (secrets: VaultSecrets) => {
+  if (!unlocked) throw new VaultError('locked');
+  const vault = await encrypt(unlocked.key, unlocked.vault, secrets);
+  localStorage.setItem(VAULT_KEY, JSON.stringify(vault));
+  unlocked = { ...unlocked, vault, secrets };
+};
+
+export const changeVaultPassphrase = async (currentPassphrase: string, newPassphrase: string) => {
+  const vault = loadVault();
+  if (!vault) return;
+  // Verify against storage rather than trusting the in-memory unlock
+  const { secrets } = await openVault(currentPassphrase, vault);
+  await createVault(newPassphrase, secrets);
+};
+
+/**
+ * Deletes the vault. Returns the keys it held if it was unlocked; when the
+ * passphrase has been forgotten the encrypted keys are simply discarded.
+ */
+export const removeVault = (): VaultSecrets => {
+  const secrets = getVaultSecrets();
+  localStorage.removeItem(VAULT_KEY);
+  unlocked = null;
+  return secrets;
+};
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ChatTurn, Creation } from '../components/CreationHistory';
+
+// Creations saved before versioning existed are their own root at v1
+export const getRootId = (creation: Creation): string => creation.rootId || creation.id;
+
+export const getVersionNumber = (creation: Creation): number => creation.version || 1;
+
+/** All versions of the artifact `creation` belongs to, oldest first. */
+export const getVersions = (history: Creation[], creation: Creation): Creation[] => {
+  const rootId = getRootId(creation);
+  return history
+    .filter(item => getRootId(item) === rootId)
+    .sort((a, b) => getVersionNumber(a) - getVersionNumber(b));
+};
+
+/** Builds the next version of `parent` in its version tree. */
+export const createNextVersion = (history: Creation[], parent: Creation, changes: Partial<Creation>): Creation => {
+  const latest = Math.max(...getVersions(history, parent).map(getVersionNumber), getVersionNumber(parent));
+  return {
+    ...parent,
+    ...changes,
+    id: crypto.randomUUID(),
+    parentId: parent.id,
+    rootId: getRootId(parent),
+    version: latest + 1,
+    timestamp: new Date(),
+  };
+};
+
+export interface VersionGroup {
+  rootId: string;
+  latest: Creation;
+  count: number;
+}
+
+/** One entry per artifact, represented by its newest version, most recently updated first. */
+export const groupByRoot = (history: Creation[]): VersionGroup[] => {
+  const groups = new Map<string, VersionGroup>();
+  for (const item of history) {
+    const rootId = getRootId(item);
+    const group = groups.get(rootId);
+    if (!group) {
+      groups.set(rootId, { rootId, latest: item, count: 1 });
+    } else {
+      group.count++;
+      if (getVersionNumber(item) > getVersionNumber(group.latest)) group.latest = item;
+    }
+  }
+  return [...groups.values()].sort((a, b) => b.latest.timestamp.getTime() - a.latest.timestamp.getTime());
+};
+
+export const createChatTurn = (role: ChatTurn['role'], text: string, versionId?: string): ChatTurn => ({
+  id: crypto.randomUUID(),
+  role,
+  text,
+  versionId,
+  timestamp: new Date(),
+});
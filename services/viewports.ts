@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const SETTINGS_KEY = 'preview_viewport_settings';
+
+// 'fill' is the original behaviour: the preview takes whatever space the panel has
+export type ViewportPreset = 'fill' | 'phone' | 'tablet' | 'desktop' | 'custom';
+
+export type DevicePreset = Exclude<ViewportPreset, 'fill'>;
+
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+export const VIEWPORT_PRESETS: Record<Exclude<DevicePreset, 'custom'>, ViewportSize & { label: string }> = {
+  phone: { label: '手机', width: 390, height: 844 },
+  tablet: { label: '平板', width: 820, height: 1180 },
+  desktop: { label: '桌面', width: 1440, height: 900 },
+};
+
+export const VIEWPORT_LABELS: Record<ViewportPreset, string> = {
+  fill: '自适应',
+  phone: VIEWPORT_PRESETS.phone.label,
+  tablet: VIEWPORT_PRESETS.tablet.label,
+  desktop: VIEWPORT_PRESETS.desktop.label,
+  custom: '自定义',
+};
+
+// Presets shown next to each other in the side-by-side view
+export const SIDE_BY_SIDE_PRESETS: DevicePreset[] = ['phone', 'tablet', 'desktop'];
+
+export const MIN_VIEWPORT_SIZE = 200;
+export const MAX_VIEWPORT_SIZE = 3840;
+
+export interface ViewportSettings {
+  preset: ViewportPreset;
+  custom: ViewportSize;
+  // Landscape for phone and tablet, portrait for desktop
+  rotated: boolean;
+  // Scale devices down to fit the panel instead of scrolling at 100%
+  fitToPanel: boolean;
+  sideBySide: boolean;
+}
+
+export const DEFAULT_VIEWPORT_SETTINGS: ViewportSettings = {
+  preset: 'fill',
+  custom: { width: 1024, height: 768 },
+  rotated: false,
+  fitToPanel: true,
+  sideBySide: false,
+};
+
+export const loadViewportSettings = (): ViewportSettings => {
+  try {
+    return { ...DEFAULT_VIEWPORT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch (e) {
+    console.error("Failed to load viewport settings", e);
+    return DEFAULT_VIEWPORT_SETTINGS;
+  }
+};
+
+export const saveViewportSettings = (settings: ViewportSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const clampViewportSize = (value: number) =>
+  Math.round(Math.min(MAX_VIEWPORT_SIZE, Math.max(MIN_VIEWPORT_SIZE, value || MIN_VIEWPORT_SIZE)));
+
+/** Pixel size of a device preset, with rotation applied. */
+export const getViewportSize = (preset: DevicePreset, settings: ViewportSettings): ViewportSize => {
+  const { width, height } = preset === 'custom' ? settings.custom : VIEWPORT_PRESETS[preset];
+  return settings.rotated ? { width: height, height: width } : { width, height };
+};